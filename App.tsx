@@ -1,45 +1,52 @@
 import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react';
-import { AppData, Project, TimerMode, AppSessionLog, AppSettings, Importance, Urgency, Subtask, ProjectCategory } from './types';
-import { getIstanbulDate, generateId, calculateProjectStats, formatTime, getDailyProjectCompletion, isProjectFinished, getEstimatedFinishDate, getLogDateString, isDailyProjectDoneToday, getSubtaskCompletionToday } from './utils';
+import { AppData, Project, TimerMode, AppSessionLog, AppSettings, Importance, Urgency, Subtask, ProjectCategory, ImportReport, TimerRun, TimerState, InterruptionType, CycleStep, SoundId, ShortcutAction, BusyBlock } from './types';
+import { getTodayLabel, generateId, downloadFile, calculateProjectStats, formatTime, formatDuration, isProjectFinished, getEstimatedFinishDate, getBusyMinutesByDay, isDailyProjectDoneToday, getSubtaskCompletionToday, getSupportedTimeZones } from './utils';
 import { Button } from './components/Button';
 import { Modal } from './components/Modal';
 import { AppSessionTimer } from './components/AppSessionTimer';
 import { PerformanceGraph } from './components/PerformanceGraph';
+import { InterruptionStats } from './components/InterruptionStats';
+import { GoalStreaks } from './components/GoalStreaks';
+import { ProductivityPatterns } from './components/ProductivityPatterns';
+import { CycleProgress, getStepLabel } from './components/CycleProgress';
 import { CalendarView } from './components/CalendarView';
-import { Trash2, Plus, Minus, SkipForward, Menu, Download, Upload, Book, Settings, Target, BarChart3, ArrowLeft, RotateCcw, Calendar as CalendarIcon, Edit2, ChevronDown, ChevronUp, Repeat, CheckCircle, ChevronRight, AlertTriangle, GripVertical, FileJson, Briefcase, User } from 'lucide-react';
-import { marked } from 'marked';
-import DOMPurify from 'dompurify';
-
-const DEFAULT_SETTINGS: AppSettings = {
-  durations: {
-    pomodoro: 25,
-    shortBreak: 5,
-    longBreak: 15
-  },
-  colors: {
-    pomodoro: '#f43f5e',
-    shortBreak: '#14b8a6',
-    longBreak: '#3b82f6'
-  },
-  autoStartBreaks: false,
-  autoStartPomodoros: false,
-  dailyPomodoroTarget: 6
-};
-
-// Markdown Helper Component
-const Markdown: React.FC<{ content: string, className?: string }> = ({ content, className = "" }) => {
-  const html = useMemo(() => {
-    // Synchronous parse for marked v15
-    const rawHtml = marked.parse(content || '', { breaks: true }) as string;
-    return DOMPurify.sanitize(rawHtml);
-  }, [content]);
-
-  return (
-    <div 
-      className={`prose max-w-none ${className}`} 
-      dangerouslySetInnerHTML={{ __html: html }} 
-    />
-  );
+import { SaveIndicator } from './components/SaveIndicator';
+import { ImportReportModal } from './components/ImportReportModal';
+import { ImportPreviewModal, PendingImport } from './components/ImportPreviewModal';
+import { UndoToast, UndoToastState } from './components/UndoToast';
+import { ResumeTimerModal } from './components/ResumeTimerModal';
+import { CommandPalette, PaletteItem } from './components/CommandPalette';
+import { ShortcutSettings } from './components/ShortcutSettings';
+import { UpdateBanner } from './components/UpdateBanner';
+import { HistoryCsvModal } from './components/HistoryCsvModal';
+import { WeeklyReportModal } from './components/WeeklyReportModal';
+import { Markdown } from './components/Markdown';
+import { CsvImportResult } from './csv';
+import { IcsImportResult } from './ics';
+import { mergeLogs } from './merge';
+import { getGoalStreak, getProjectStreaks } from './goals';
+import { loadAppData, saveAppData, loadTimerState, saveTimerState, SaveStatus } from './storage';
+import { DEFAULT_SETTINGS, CURRENT_DATA_VERSION, migrateAppData } from './schema';
+import { getCycle, getStepDurationMs, startRun, pauseRun, resumeRun, isRunPaused, getElapsedMs, getRemainingMs, isRunComplete, getCompletionTime, excludeInterval, labelLastPause, getInterruptions } from './timerEngine';
+import { playSound, unlockAudio, SOUND_OPTIONS } from './sounds';
+import { showTimerNotification, subscribeToNotificationActions, requestNotificationPermission } from './notifications';
+import { SHORTCUT_ACTIONS, getEventBinding, findShortcutAction, formatBinding, isTypingTarget, hasModifier } from './shortcuts';
+import { subscribeToUpdates, applyUpdate, wasReloadedForUpdate } from './serviceWorker';
+import { createTabSync, claimTimerOwnership, TabSync } from './tabSync';
+import { CommandHistory, DataSnapshot, EMPTY_COMMAND_HISTORY, recordCommand, undoCommand, redoCommand, rebaseCommandHistory } from './undo';
+import { Trash2, Plus, Minus, SkipForward, Menu, Download, Upload, Book, Settings, Target, BarChart3, ArrowLeft, RotateCcw, Calendar as CalendarIcon, Edit2, ChevronDown, ChevronUp, Repeat, CheckCircle, ChevronRight, AlertTriangle, GripVertical, FileJson, Briefcase, User, Volume2, FileSpreadsheet, NotebookText, Flame } from 'lucide-react';
+
+const SAVE_DEBOUNCE_MS = 800;
+const TIMER_SAVE_INTERVAL_MS = 5000;
+const MIN_PARTIAL_SESSION_SECONDS = 10; // Shorter runs are treated as accidental starts
+
+// Drops a stored project/subtask selection that no longer exists
+const pickKnownSelection = (timer: TimerState, projects: Project[]): Pick<TimerState, 'selectedProjectId' | 'activeSubtaskId'> => {
+  const project = projects.find(p => p.id === timer.selectedProjectId);
+  return {
+    selectedProjectId: project ? project.id : (projects[0]?.id ?? null),
+    activeSubtaskId: project?.subtasks.some(t => t.id === timer.activeSubtaskId) ? timer.activeSubtaskId : null
+  };
 };
 
 const App: React.FC = () => {
@@ -47,14 +54,15 @@ const App: React.FC = () => {
   const [appHistory, setAppHistory] = useState<AppSessionLog[]>([]);
   const [dayNotes, setDayNotes] = useState<Record<string, string>>({});
   const [dayAgendas, setDayAgendas] = useState<Record<string, Record<string, string>>>({});
+  const [busyBlocks, setBusyBlocks] = useState<BusyBlock[]>([]);
   const [selectedProjectId, setSelectedProjectId] = useState<string | null>(null);
   const [activeSubtaskId, setActiveSubtaskId] = useState<string | null>(null);
   const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
   const [isSettingsModalOpen, setIsSettingsModalOpen] = useState(false);
-  const [timerMode, setTimerMode] = useState<TimerMode>(TimerMode.POMODORO);
-  const [timeLeft, setTimeLeft] = useState(DEFAULT_SETTINGS.durations.pomodoro * 60);
-  const [isActive, setIsActive] = useState(false);
-  const [pomoCount, setPomoCount] = useState(0); 
+  const [timerRun, setTimerRun] = useState<TimerRun | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const [cycleStep, setCycleStep] = useState(0);
+  const [isTimerOwner, setIsTimerOwner] = useState(false); // Another open tab may be running the timer
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
   const [isAddProjectModalOpen, setIsAddProjectModalOpen] = useState(false);
   const [isEditProjectModalOpen, setIsEditProjectModalOpen] = useState(false);
@@ -62,6 +70,13 @@ const App: React.FC = () => {
   const [isEditSubtaskModalOpen, setIsEditSubtaskModalOpen] = useState(false);
   const [isPerformanceViewOpen, setIsPerformanceViewOpen] = useState(false);
   const [isCalendarViewOpen, setIsCalendarViewOpen] = useState(false);
+  const [isCommandPaletteOpen, setIsCommandPaletteOpen] = useState(false);
+  const [notificationsBlocked, setNotificationsBlocked] = useState(false);
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
+  const [importReportSubject, setImportReportSubject] = useState<string | undefined>(undefined);
+  const [isHistoryCsvOpen, setIsHistoryCsvOpen] = useState(false);
+  const [isWeeklyReportOpen, setIsWeeklyReportOpen] = useState(false);
+  const [pendingImport, setPendingImport] = useState<(PendingImport & { report: ImportReport }) | null>(null);
   const [expandedSubtasks, setExpandedSubtasks] = useState<Set<string>>(new Set());
   
   // UI State for sidebar sections
@@ -88,13 +103,15 @@ const App: React.FC = () => {
     isDaily: boolean;
     recurrenceEndDate: string;
     category: ProjectCategory;
+    pomodoroMinutes: string; // Empty means the Settings default
   }>({ 
     id: '', 
     name: '', 
     description: '', 
     isDaily: false, 
     recurrenceEndDate: '',
-    category: 'personal'
+    category: 'personal',
+    pomodoroMinutes: ''
   });
   
   const [editingSubtask, setEditingSubtask] = useState<Subtask | null>(null);
@@ -108,63 +125,395 @@ const App: React.FC = () => {
 
   const currentSessionDuration = useRef<string>("00:00:00");
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const audioRef = useRef<HTMLAudioElement | null>(null);
 
   const handleAppTimerUpdate = useCallback((time: string) => {
     currentSessionDuration.current = time;
   }, []);
 
+  // ----- Local Persistence (IndexedDB) -----
+  const [isHydrated, setIsHydrated] = useState(false);
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>('idle');
+  const pendingSaveRef = useRef<AppData | null>(null);
+  const saveChainRef = useRef<Promise<void>>(Promise.resolve());
+
+  const flushPendingSave = useCallback(() => {
+    const data = pendingSaveRef.current;
+    if (!data) return;
+    pendingSaveRef.current = null;
+    // Writes are chained so an older snapshot can never land after a newer one
+    saveChainRef.current = saveChainRef.current
+      .then(() => saveAppData(data))
+      .then(() => { if (!pendingSaveRef.current) setSaveStatus('saved'); })
+      .catch((err) => {
+        console.error("Failed to save data locally", err);
+        setSaveStatus('failed');
+      });
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadAppData()
+      .then((stored) => {
+        if (cancelled) return;
+        if (stored) {
+          // Stored data goes through the same migration chain as imported backups
+          const { data, report } = migrateAppData(stored);
+          if (!data) throw new Error(report.rejected.join(' '));
+          if (report.fixed.length > 0 || report.dropped.length > 0) console.warn("Repaired locally saved data", report);
+          setProjects(data.projects);
+          if (data.projects.length > 0) setSelectedProjectId(data.projects[0].id);
+          setAppHistory(data.appHistory);
+          setDayNotes(data.dayNotes || {});
+          setDayAgendas(data.dayAgendas || {});
+          setBusyBlocks(data.busyBlocks || []);
+          if (data.settings) setSettings(data.settings);
+          setSaveStatus('saved');
+        }
+        setIsHydrated(true);
+      })
+      .catch((err) => {
+        // Stay un-hydrated so autosave never overwrites data we failed to read
+        console.error("Failed to load saved data", err);
+        if (!cancelled) setSaveStatus('failed');
+      });
+    return () => { cancelled = true; };
+  }, []);
+
+  useEffect(() => {
+    if (!isHydrated) return;
+    pendingSaveRef.current = { version: CURRENT_DATA_VERSION, projects, appHistory, dayNotes, dayAgendas, busyBlocks, settings };
+    setSaveStatus('saving');
+    const timeout = setTimeout(flushPendingSave, SAVE_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [isHydrated, projects, appHistory, dayNotes, dayAgendas, busyBlocks, settings, flushPendingSave]);
+
+  useEffect(() => {
+    // Don't wait for the debounce when the tab is hidden or closing
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flushPendingSave();
+    };
+    window.addEventListener('pagehide', flushPendingSave);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      window.removeEventListener('pagehide', flushPendingSave);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [flushPendingSave]);
+
+  // ----- Undo / Redo -----
+  const [commandHistory, setCommandHistory] = useState<CommandHistory>(EMPTY_COMMAND_HISTORY);
+  const [undoToast, setUndoToast] = useState<UndoToastState | null>(null);
+  const dataSnapshotRef = useRef<DataSnapshot>({ projects, appHistory, dayNotes, dayAgendas, busyBlocks, settings });
+  dataSnapshotRef.current = { projects, appHistory, dayNotes, dayAgendas, busyBlocks, settings };
+
+  // Call right before mutating data; the current snapshot becomes the undo target
+  const recordUndo = (label: string, coalesceKey?: string) => {
+    const before = dataSnapshotRef.current;
+    setCommandHistory(prev => recordCommand(prev, label, before, coalesceKey));
+    if (!coalesceKey) setUndoToast({ message: label, action: 'undo', id: Date.now() });
+  };
+
+  const restoreSnapshot = (snapshot: DataSnapshot) => {
+    setProjects(snapshot.projects);
+    setAppHistory(snapshot.appHistory);
+    setDayNotes(snapshot.dayNotes);
+    setDayAgendas(snapshot.dayAgendas);
+    setBusyBlocks(snapshot.busyBlocks);
+    setSettings(snapshot.settings);
+  };
+
+  const handleUndo = () => {
+    const result = undoCommand(commandHistory, dataSnapshotRef.current);
+    if (!result) return;
+    setCommandHistory(result.history);
+    restoreSnapshot(result.entry.snapshot);
+    setUndoToast({ message: `Undone: ${result.entry.label}`, action: 'redo', id: Date.now() });
+  };
+
+  const handleRedo = () => {
+    const result = redoCommand(commandHistory, dataSnapshotRef.current);
+    if (!result) return;
+    setCommandHistory(result.history);
+    restoreSnapshot(result.entry.snapshot);
+    setUndoToast({ message: `Redone: ${result.entry.label}`, action: 'undo', id: Date.now() });
+  };
+
+  // Store handlers in ref so the keyboard listener is only attached once
+  const undoHandlersRef = useRef({ handleUndo, handleRedo });
+  undoHandlersRef.current = { handleUndo, handleRedo };
+
   useEffect(() => {
-    audioRef.current = new Audio('https://actions.google.com/sounds/v1/alarms/beep_short.ogg');
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      // Leave text fields to the browser's own undo
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undoHandlersRef.current.handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        undoHandlersRef.current.handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
   }, []);
 
+  const selectedPomodoroMinutes = projects.find(p => p.id === selectedProjectId)?.pomodoroMinutes;
+  const cycle = useMemo(() => getCycle(settings, selectedPomodoroMinutes), [settings, selectedPomodoroMinutes]);
+  // The cycle can shrink in Settings, so the stored position is wrapped instead of trusted
+  const stepIndex = cycleStep % cycle.length;
+  const currentStep = cycle[stepIndex];
+  const timerMode = timerRun ? timerRun.mode : currentStep.mode;
+  // Remaining time is derived from the run's timestamps; the interval only triggers re-renders
+  const remainingMs = timerRun ? getRemainingMs(timerRun, now) : getStepDurationMs(currentStep);
+  const timeLeft = Math.ceil(remainingMs / 1000);
+  const isActive = !!timerRun && !isRunPaused(timerRun);
+  const lastPause = timerRun && isRunPaused(timerRun) ? timerRun.pauses[timerRun.pauses.length - 1] : null;
+  const openInterruption = lastPause?.type ? lastPause : null;
+
+  useEffect(() => {
+    if (!isActive) return;
+    const tick = () => setNow(Date.now());
+    tick();
+    const interval = setInterval(tick, 250);
+    // Background tabs throttle timers, so catch up as soon as the page is visible again
+    document.addEventListener('visibilitychange', tick);
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', tick);
+    };
+  }, [isActive]);
+
+  useEffect(() => {
+    // Tabs mirroring another tab's timer leave the completion to that tab
+    if (isTimerOwner && timerRun && isRunComplete(timerRun, now)) handleTimerComplete(timerRun, getCompletionTime(timerRun, now));
+  }, [timerRun, now, isTimerOwner]);
+
+  // ----- Timer Persistence -----
+  const [recoveredTimer, setRecoveredTimer] = useState<TimerState | null>(null);
+  const [isTimerRestored, setIsTimerRestored] = useState(false);
+  // Changes every few seconds while running, so savedAt stays close to when the app was last alive
+  const timerSaveTick = isActive ? Math.floor(now / TIMER_SAVE_INTERVAL_MS) : 0;
+
   useEffect(() => {
-    const durationKey = timerMode === TimerMode.POMODORO ? 'pomodoro' : (timerMode === TimerMode.SHORT_BREAK ? 'shortBreak' : 'longBreak');
-    setTimeLeft(settings.durations[durationKey] * 60);
-  }, [settings.durations, timerMode]);
+    // Wait until a recovered session has been dealt with, or it would be overwritten
+    if (!isTimerRestored) return;
+    saveTimerState({ cycleStep, run: timerRun, selectedProjectId, activeSubtaskId, savedAt: Date.now() })
+      .catch((err) => console.error("Failed to save timer state", err));
+  }, [isTimerRestored, cycleStep, timerRun, selectedProjectId, activeSubtaskId, timerSaveTick]);
+
+  useEffect(() => claimTimerOwnership(() => setIsTimerOwner(true)), []);
 
+  // The timer is restored separately so a broken timer record can't block the app data. A tab
+  // that takes the timer over from a closed tab already mirrors the live timer instead.
   useEffect(() => {
-    let interval: ReturnType<typeof setInterval>;
-    if (isActive && timeLeft > 0) {
-      interval = setInterval(() => setTimeLeft((prev) => prev - 1), 1000);
-    } else if (timeLeft === 0 && isActive) {
-      handleTimerComplete();
+    if (!isHydrated || !isTimerOwner) return;
+    if (tabSyncRef.current?.hasReceived('timer')) {
+      setIsTimerRestored(true);
+      return;
+    }
+    let cancelled = false;
+    loadTimerState()
+      .then((timer) => {
+        if (cancelled) return;
+        // Reloading for a new version isn't a crash: the timer just keeps going
+        if (timer?.run && wasReloadedForUpdate()) {
+          restoreTimerState({ ...timer, ...pickKnownSelection(timer, projects) });
+          setTimerRun(timer.run);
+          setNow(Date.now());
+          setIsTimerRestored(true);
+        } else if (timer?.run) setRecoveredTimer({ ...timer, ...pickKnownSelection(timer, projects) });
+        else {
+          if (timer) restoreTimerState({ ...timer, ...pickKnownSelection(timer, projects) });
+          setIsTimerRestored(true);
+        }
+      })
+      .catch((err) => {
+        console.error("Failed to load timer state", err);
+        if (!cancelled) setIsTimerRestored(true);
+      });
+    return () => { cancelled = true; };
+  }, [isHydrated, isTimerOwner]);
+
+  // ----- App Updates -----
+  const [isUpdateAvailable, setIsUpdateAvailable] = useState(false);
+
+  useEffect(() => subscribeToUpdates(() => setIsUpdateAvailable(true)), []);
+
+  const handleReloadForUpdate = async () => {
+    flushPendingSave();
+    try {
+      await saveChainRef.current;
+      if (isTimerOwner && isTimerRestored) await saveTimerState({ cycleStep, run: timerRun, selectedProjectId, activeSubtaskId, savedAt: Date.now() });
+    } catch (err) {
+      console.error("Failed to save before reloading", err);
     }
-    return () => clearInterval(interval);
-  }, [isActive, timeLeft]);
+    applyUpdate();
+  };
+
+  // ----- Tab Sync -----
+  const tabSyncRef = useRef<TabSync | null>(null);
 
   useEffect(() => {
-    document.title = `${formatTime(timeLeft)} - ${timerMode === TimerMode.POMODORO ? 'Focus' : 'Break'}`;
-  }, [timeLeft, timerMode]);
-
-  const handleTimerComplete = () => {
-    setIsActive(false);
-    if (timerMode === TimerMode.POMODORO) {
-      const nextPomoCount = pomoCount + 1;
-      setPomoCount(nextPomoCount);
-      
-      // Update persistent history
-      const todayStr = getLogDateString();
-      const newLog: AppSessionLog = {
-        date: todayStr,
-        duration: formatTime(settings.durations.pomodoro * 60),
-        projectId: selectedProjectId || undefined,
-        subtaskId: activeSubtaskId || undefined
-      };
-      setAppHistory(prev => [...prev, newLog]);
+    if (!isHydrated) return;
+    const sync = createTabSync(
+      { projects, appHistory, dayNotes, dayAgendas, busyBlocks, settings, timer: { cycleStep, run: timerRun, selectedProjectId, activeSubtaskId } },
+      (changes) => {
+        const { timer, ...dataChanges } = changes;
+        if (Object.keys(dataChanges).length > 0) setCommandHistory(prev => rebaseCommandHistory(prev, dataChanges));
+        if (changes.projects) setProjects(changes.projects);
+        if (changes.appHistory) setAppHistory(changes.appHistory);
+        if (changes.dayNotes) setDayNotes(changes.dayNotes);
+        if (changes.dayAgendas) setDayAgendas(changes.dayAgendas);
+        if (changes.busyBlocks) setBusyBlocks(changes.busyBlocks);
+        if (changes.settings) setSettings(changes.settings);
+        if (timer) {
+          setCycleStep(timer.cycleStep);
+          setTimerRun(timer.run);
+          setSelectedProjectId(timer.selectedProjectId);
+          setActiveSubtaskId(timer.activeSubtaskId);
+          setNow(Date.now());
+        }
+      }
+    );
+    tabSyncRef.current = sync;
+    return () => {
+      sync?.close();
+      tabSyncRef.current = null;
+    };
+  }, [isHydrated]);
 
-      // Update project counters
-      if (activeSubtaskId && selectedProjectId) updateSubtaskProgress(selectedProjectId, activeSubtaskId);
-      
-      let nextMode = nextPomoCount % 4 === 0 ? TimerMode.LONG_BREAK : TimerMode.SHORT_BREAK;
-      let nextTime = nextMode === TimerMode.LONG_BREAK ? settings.durations.longBreak * 60 : settings.durations.shortBreak * 60;
-      setTimerMode(nextMode);
-      setTimeLeft(nextTime);
-      if (settings.autoStartBreaks) setIsActive(true);
-    } else {
-      setTimerMode(TimerMode.POMODORO);
-      setTimeLeft(settings.durations.pomodoro * 60);
-      if (settings.autoStartPomodoros) setIsActive(true);
+  useEffect(() => {
+    tabSyncRef.current?.publish({ projects, appHistory, dayNotes, dayAgendas, busyBlocks, settings, timer: { cycleStep, run: timerRun, selectedProjectId, activeSubtaskId } });
+  }, [projects, appHistory, dayNotes, dayAgendas, busyBlocks, settings, cycleStep, timerRun, selectedProjectId, activeSubtaskId]);
+
+  const restoreTimerState = (timer: TimerState) => {
+    setCycleStep(Number.isInteger(timer.cycleStep) && timer.cycleStep >= 0 ? timer.cycleStep : 0);
+    setSelectedProjectId(timer.selectedProjectId);
+    setActiveSubtaskId(timer.activeSubtaskId);
+  };
+
+  const settleRecoveredTimer = (run: TimerRun | null) => {
+    if (!recoveredTimer) return;
+    restoreTimerState(recoveredTimer);
+    setTimerRun(run);
+    setNow(Date.now());
+    setRecoveredTimer(null);
+    setIsTimerRestored(true);
+  };
+
+  // The time the app was closed doesn't count against the session
+  const handleResumeRecoveredTimer = () => {
+    if (recoveredTimer?.run) settleRecoveredTimer(excludeInterval(recoveredTimer.run, recoveredTimer.savedAt, Date.now()));
+  };
+
+  // Restoring the run untouched lets the completion effect log it with its real end time
+  const handleLogRecoveredTimer = () => settleRecoveredTimer(recoveredTimer?.run ?? null);
+
+  const handleDiscardRecoveredTimer = () => settleRecoveredTimer(null);
+
+  useEffect(() => {
+    document.title = `${formatTime(timeLeft)} - ${getStepLabel(currentStep)}`;
+  }, [timeLeft, currentStep]);
+
+  // Records a focus run. Runs cut short by skip or reset keep the time actually focused and
+  // only count toward the subtask once they reach the configured share of the planned length.
+  const logFocusSession = (run: TimerRun, endedAt: number, isPartial: boolean): boolean => {
+    const elapsedSeconds = Math.round(getElapsedMs(run, endedAt) / 1000);
+    if (isPartial && elapsedSeconds < MIN_PARTIAL_SESSION_SECONDS) return false;
+    const counts = !isPartial || elapsedSeconds * 1000 >= run.durationMs * settings.partialSessionThreshold / 100;
+
+    const newLog: AppSessionLog = {
+      startedAt: new Date(run.startedAt).toISOString(),
+      endedAt: new Date(endedAt).toISOString(),
+      mode: TimerMode.POMODORO,
+      duration: formatDuration(elapsedSeconds),
+      projectId: selectedProjectId || undefined,
+      subtaskId: activeSubtaskId || undefined
+    };
+    if (isPartial) {
+      newLog.isPartial = true;
+      newLog.countsTowardTarget = counts;
+    }
+    const interruptions = getInterruptions(run, endedAt);
+    if (interruptions.length > 0) newLog.interruptions = interruptions;
+    recordUndo(isPartial ? 'Partial session logged' : 'Session logged');
+    setAppHistory(prev => [...prev, newLog]);
+
+    // Update project counters
+    if (counts && activeSubtaskId && selectedProjectId) updateSubtaskProgress(selectedProjectId, activeSubtaskId);
+    return counts;
+  };
+
+  const goToStep = (index: number, autoStart: boolean = false) => {
+    const step = cycle[index];
+    setCycleStep(index);
+    setTimerRun(autoStart ? startRun(step.mode, getStepDurationMs(step)) : null);
+  };
+
+  const advanceTimer = () => {
+    const nextIndex = (stepIndex + 1) % cycle.length;
+    const next = cycle[nextIndex];
+    goToStep(nextIndex, next.mode === TimerMode.POMODORO ? settings.autoStartPomodoros : settings.autoStartBreaks);
+    return next;
+  };
+
+  // Sound and desktop notification for a step that ran out; the buttons act on the next step
+  const announceStepEnd = (finished: TimerMode, next: CycleStep, autoStarted: boolean) => {
+    const isFocus = finished === TimerMode.POMODORO;
+    playSound(isFocus ? settings.sounds.focusEnd : settings.sounds.breakEnd, settings.volume);
+    if (!settings.notifications) return;
+    const nextLabel = getStepLabel(next);
+    showTimerNotification(
+      isFocus ? 'Focus session complete' : 'Break is over',
+      `${autoStarted ? 'Now running' : 'Up next'}: ${nextLabel} (${next.minutes} min)`,
+      autoStarted ? [{ action: 'skip', title: 'Skip' }] : [{ action: 'start', title: `Start ${nextLabel.toLowerCase()}` }, { action: 'skip', title: 'Skip' }]
+    );
+  };
+
+  // Focus time is never thrown away: a run cut short is logged as a partial session
+  const endRunEarly = () => {
+    if (timerRun?.mode === TimerMode.POMODORO) logFocusSession(timerRun, Date.now(), true);
+  };
+
+  // `completedAt` is when the countdown actually hit zero, which may be before the tab woke up
+  const handleTimerComplete = (run: TimerRun, completedAt: number) => {
+    if (run.mode === TimerMode.POMODORO) logFocusSession(run, completedAt, false);
+    const next = advanceTimer();
+    announceStepEnd(run.mode, next, next.mode === TimerMode.POMODORO ? settings.autoStartPomodoros : settings.autoStartBreaks);
+  };
+
+  // Store handlers in ref so the notification listener is only attached once
+  const notificationHandlersRef = useRef({ start: () => {}, skip: () => {} });
+
+  useEffect(() => subscribeToNotificationActions((action) => notificationHandlersRef.current[action]()), []);
+
+  // One warning per run, shortly before it ends
+  const warnedRunRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    const warningMs = settings.warningMinutes * 60 * 1000;
+    if (!isTimerOwner || !timerRun || !isActive || warningMs <= 0 || timerRun.durationMs <= warningMs) return;
+    if (warnedRunRef.current === timerRun.startedAt || remainingMs > warningMs || remainingMs <= 0) return;
+    warnedRunRef.current = timerRun.startedAt;
+    playSound(settings.sounds.warning, settings.volume);
+    if (settings.notifications) showTimerNotification(`${settings.warningMinutes} min left`, `${getStepLabel(currentStep)} is almost over.`);
+  }, [isTimerOwner, timerRun, isActive, remainingMs, settings, currentStep]);
+
+  const jumpToStep = (index: number) => {
+    if (index === stepIndex && !timerRun) return;
+    endRunEarly();
+    goToStep(index);
+  };
+
+  // Mode buttons jump to the next step of that kind in the cycle
+  const jumpToMode = (mode: TimerMode) => {
+    for (let offset = 0; offset < cycle.length; offset++) {
+      const index = (stepIndex + offset) % cycle.length;
+      if (cycle[index].mode === mode) return jumpToStep(index);
     }
   };
 
@@ -175,17 +524,32 @@ const App: React.FC = () => {
     }));
   };
 
-  const toggleTimer = () => setIsActive(!isActive);
+  const toggleTimer = () => {
+    const at = Date.now();
+    unlockAudio();
+    setNow(at);
+    if (!timerRun) setTimerRun(startRun(currentStep.mode, getStepDurationMs(currentStep), at));
+    // Pausing during focus is recorded as an interruption, internal until the user says otherwise
+    else setTimerRun(isRunPaused(timerRun) ? resumeRun(timerRun, at) : pauseRun(timerRun, at, timerRun.mode === TimerMode.POMODORO ? 'internal' : undefined));
+  };
   
+  const labelInterruption = (type: InterruptionType, reason: string) => {
+    setTimerRun(prev => prev && labelLastPause(prev, type, reason));
+  };
+
   const skipTimer = () => { 
-    setIsActive(false); 
-    handleTimerComplete(); 
+    endRunEarly();
+    advanceTimer(); 
   };
 
   const resetTimer = () => {
-    setIsActive(false);
-    const durationKey = timerMode === TimerMode.POMODORO ? 'pomodoro' : (timerMode === TimerMode.SHORT_BREAK ? 'shortBreak' : 'longBreak');
-    setTimeLeft(settings.durations[durationKey] * 60);
+    endRunEarly();
+    setTimerRun(null);
+  };
+
+  notificationHandlersRef.current = {
+    start: () => { if (!timerRun) toggleTimer(); },
+    skip: skipTimer
   };
 
   const handleAddProject = () => {
@@ -220,6 +584,7 @@ const App: React.FC = () => {
         urgency: st.urgency as Urgency
       }))
     };
+    recordUndo('Project created');
     setProjects(prev => [...prev, newProject]);
     setNewProjectName('');
     setNewProjectDesc('');
@@ -238,7 +603,8 @@ const App: React.FC = () => {
         description: project.description || '',
         isDaily: project.isDaily || false,
         recurrenceEndDate: project.recurrenceEndDate || '',
-        category: project.category || 'personal'
+        category: project.category || 'personal',
+        pomodoroMinutes: project.pomodoroMinutes ? String(project.pomodoroMinutes) : ''
     });
     setIsEditProjectModalOpen(true);
   };
@@ -250,13 +616,16 @@ const App: React.FC = () => {
         return;
     }
 
+    const pomodoroMinutes = parseInt(editProjectData.pomodoroMinutes);
+    recordUndo('Project updated');
     setProjects(prev => prev.map(p => p.id !== editProjectData.id ? p : {
         ...p,
         name: editProjectData.name,
         description: editProjectData.description,
         isDaily: editProjectData.isDaily,
         recurrenceEndDate: editProjectData.isDaily ? editProjectData.recurrenceEndDate : undefined,
-        category: editProjectData.category
+        category: editProjectData.category,
+        pomodoroMinutes: pomodoroMinutes > 0 ? pomodoroMinutes : undefined
     }));
     setIsEditProjectModalOpen(false);
   };
@@ -282,6 +651,7 @@ const App: React.FC = () => {
       importance: subtaskForm.importance as Importance,
       urgency: subtaskForm.urgency as Urgency
     };
+    recordUndo('Subtask added');
     setProjects(prev => prev.map(p => p.id !== selectedProjectId ? p : { ...p, subtasks: [...p.subtasks, newSubtask] }));
     resetSubtaskForm();
     setIsAddSubtaskModalOpen(false);
@@ -294,6 +664,7 @@ const App: React.FC = () => {
       return;
     }
     
+    recordUndo('Subtask updated');
     setProjects(prev => prev.map(project => {
       const hasSubtask = project.subtasks.some(t => t.id === editingSubtask.id);
       if (!hasSubtask) return project;
@@ -333,6 +704,48 @@ const App: React.FC = () => {
     setIsEditSubtaskModalOpen(true);
   };
 
+  const handleDeleteProject = (projectId: string) => {
+    if (!window.confirm("Delete project?")) return;
+    recordUndo('Project deleted');
+    setProjects(prev => prev.filter(p => p.id !== projectId));
+    if (selectedProjectId === projectId) setSelectedProjectId(null);
+  };
+
+  const handleDeleteSubtask = (projectId: string, subtaskId: string) => {
+    if (!window.confirm("Delete subtask?")) return;
+    recordUndo('Subtask deleted');
+    setProjects(prev => prev.map(p => p.id !== projectId ? p : { ...p, subtasks: p.subtasks.filter(t => t.id !== subtaskId) }));
+    if (activeSubtaskId === subtaskId) setActiveSubtaskId(null);
+  };
+
+  const updateSettings = (next: AppSettings, field: string) => {
+    recordUndo('Settings changed', `settings:${field}`);
+    setSettings(next);
+  };
+
+  const handleToggleNotifications = async (enabled: boolean) => {
+    if (!enabled) {
+      updateSettings({ ...settings, notifications: false }, 'notifications');
+      return;
+    }
+    const granted = await requestNotificationPermission();
+    setNotificationsBlocked(!granted);
+    if (granted) updateSettings({ ...settings, notifications: true }, 'notifications');
+  };
+
+  // A key can only run one action, so taking a binding removes it from whichever action had it
+  const handleShortcutChange = (action: ShortcutAction, binding: string) => {
+    const shortcuts = { ...settings.shortcuts };
+    if (binding) (Object.keys(shortcuts) as ShortcutAction[]).forEach(other => { if (shortcuts[other] === binding) shortcuts[other] = ''; });
+    shortcuts[action] = binding;
+    updateSettings({ ...settings, shortcuts }, `shortcuts.${action}`);
+  };
+
+  const updateCustomCycle = (customCycle: CycleStep[]) => updateSettings({ ...settings, customCycle }, 'customCycle');
+
+  const updateCycleStep = (index: number, changes: Partial<CycleStep>) =>
+    updateCustomCycle(settings.customCycle.map((step, i) => i === index ? { ...step, ...changes } : step));
+
   const toggleSubtaskExpand = (id: string) => {
     setExpandedSubtasks(prev => {
       const next = new Set(prev);
@@ -343,6 +756,7 @@ const App: React.FC = () => {
   };
 
   const updateSessionTarget = (projectId: string, subtaskId: string, increment: number) => {
+    recordUndo('Session target changed', `target:${subtaskId}`);
     setProjects(prev => prev.map(p => p.id !== projectId ? p : {
       ...p,
       subtasks: p.subtasks.map(t => {
@@ -359,38 +773,84 @@ const App: React.FC = () => {
   const importDataFromFile = (file: File) => {
     const reader = new FileReader();
     reader.onload = (e) => {
+      let raw: unknown;
       try {
-        const json = JSON.parse(e.target?.result as string) as AppData;
-        if (json.projects) {
-          setProjects(json.projects);
-          if (json.projects.length > 0) setSelectedProjectId(json.projects[0].id);
-        }
-        if (json.appHistory) setAppHistory(json.appHistory);
-        if (json.dayNotes) setDayNotes(json.dayNotes);
-        if (json.dayAgendas) setDayAgendas(json.dayAgendas);
-        if (json.settings) setSettings(json.settings);
-        // Show success indicator (using basic alert for now, could be improved)
-        alert('Data imported successfully!');
-      } catch (err) { alert('Failed to parse JSON file.'); }
+        raw = JSON.parse(e.target?.result as string);
+      } catch (err) {
+        setImportReport({ fromVersion: 0, toVersion: CURRENT_DATA_VERSION, migrations: [], fixed: [], dropped: [], rejected: ['File is not valid JSON.'] });
+        return;
+      }
+      const { data, report } = migrateAppData(raw);
+      // Valid backups wait for the user to pick replace or merge; rejected ones report straight away
+      if (data) setPendingImport({ fileName: file.name, data, report });
+      else setImportReport(report);
     };
     reader.readAsText(file);
   };
 
+  const applyImportedData = (data: AppData) => {
+    setProjects(data.projects);
+    if (!data.projects.some(p => p.id === selectedProjectId)) setSelectedProjectId(data.projects.length > 0 ? data.projects[0].id : null);
+    setAppHistory(data.appHistory);
+    if (data.dayNotes) setDayNotes(data.dayNotes);
+    if (data.dayAgendas) setDayAgendas(data.dayAgendas);
+    if (data.busyBlocks) setBusyBlocks(data.busyBlocks);
+    if (data.settings) setSettings(data.settings);
+  };
+
+  const finishImport = (data: AppData, label: string) => {
+    if (!pendingImport) return;
+    recordUndo(label);
+    applyImportedData(data);
+    setImportReportSubject(undefined);
+    setImportReport(pendingImport.report);
+    setPendingImport(null);
+  };
+
+  // CSV rows only add sessions; ones already in the history are matched and skipped
+  const handleCsvImport = (result: CsvImportResult) => {
+    const report: ImportReport = { fromVersion: CURRENT_DATA_VERSION, toVersion: CURRENT_DATA_VERSION, migrations: [], fixed: result.fixed, dropped: result.dropped, rejected: result.rejected };
+    if (result.rejected.length === 0) {
+      const merged = mergeLogs(appHistory, result.logs);
+      const skipped = result.logs.length - (merged.length - appHistory.length);
+      if (skipped > 0) report.dropped = [...report.dropped, `${skipped} ${skipped === 1 ? 'session was' : 'sessions were'} already in the history`];
+      if (merged.length > appHistory.length) {
+        recordUndo('Sessions imported');
+        setAppHistory(merged);
+      }
+    }
+    setIsHistoryCsvOpen(false);
+    setImportReportSubject('Sessions');
+    setImportReport(report);
+  };
+
+  // A calendar file replaces the busy blocks imported earlier from a file of the same name
+  const handleBusyBlocksImport = (result: IcsImportResult, source: string) => {
+    const report: ImportReport = { fromVersion: CURRENT_DATA_VERSION, toVersion: CURRENT_DATA_VERSION, migrations: [], fixed: result.fixed, dropped: result.dropped, rejected: result.rejected };
+    if (result.rejected.length === 0) {
+      recordUndo('Calendar imported');
+      setBusyBlocks(prev => [...prev.filter(b => b.source !== source), ...result.blocks]);
+    }
+    setImportReportSubject('Calendar events');
+    setImportReport(report);
+  };
+
+  const handleRemoveBusySource = (source: string) => {
+    recordUndo('Calendar removed');
+    setBusyBlocks(prev => prev.filter(b => b.source !== source));
+  };
+
   const handleExport = () => {
-    const todayStr = getLogDateString();
     const dataToExport: AppData = { 
+      version: CURRENT_DATA_VERSION,
       projects, 
       appHistory: [...appHistory], 
       dayNotes, 
       dayAgendas, 
+      busyBlocks,
       settings 
     };
-    const blob = new Blob([JSON.stringify(dataToExport, null, 2)], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `studybook_backup_${Date.now()}.json`;
-    link.click();
+    downloadFile(JSON.stringify(dataToExport, null, 2), `studybook_backup_${Date.now()}.json`, 'application/json');
   };
 
   const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -417,6 +877,7 @@ const App: React.FC = () => {
     e.stopPropagation(); // Prevent bubbling to App container
     if (!draggedSubtaskId || draggedSubtaskId === targetId || !selectedProjectId) return;
 
+    recordUndo('Subtasks reordered');
     setProjects(prev => prev.map(p => {
       if (p.id !== selectedProjectId) return p;
       
@@ -485,23 +946,12 @@ const App: React.FC = () => {
   // Calculate stats for selected project - handle daily project logic
   const selectedProjectStats = useMemo(() => {
     if (!selectedProject) return null;
-    if (selectedProject.isDaily) {
-      const todayStr = getLogDateString();
-      const dailyDone = getDailyProjectCompletion(selectedProject.id, todayStr, appHistory);
-      const dailyTarget = selectedProject.subtasks.reduce((sum, t) => sum + t.targetSessions, 0);
-      return {
-        totalSessions: dailyTarget,
-        completedSessions: dailyDone,
-        timeSpent: formatTime(dailyDone * 25 * 60),
-        timeRemaining: formatTime(Math.max(0, dailyTarget - dailyDone) * 25 * 60)
-      };
-    }
-    return calculateProjectStats(selectedProject.subtasks);
-  }, [selectedProject, appHistory]);
+    return calculateProjectStats(selectedProject, appHistory, settings);
+  }, [selectedProject, appHistory, settings]);
 
   const activeSubtask = selectedProject?.subtasks.find(t => t.id === activeSubtaskId);
-  const totalDuration = timerMode === TimerMode.POMODORO ? settings.durations.pomodoro * 60 : (timerMode === TimerMode.SHORT_BREAK ? settings.durations.shortBreak * 60 : settings.durations.longBreak * 60);
-  const progressPercentage = Math.min(100, Math.max(0, (timeLeft / totalDuration) * 100));
+  const totalDuration = timerRun ? timerRun.durationMs : getStepDurationMs(currentStep);
+  const progressPercentage = Math.min(100, Math.max(0, (remainingMs / totalDuration) * 100));
 
   const projectBarSegments = useMemo(() => {
     if (!selectedProject) return [];
@@ -525,38 +975,144 @@ const App: React.FC = () => {
     projects.forEach(p => {
         // A project is in 'Finished' bin if it is standard finished OR it is a daily project finished TODAY.
         // It is also 'Finished' if it's expired daily project (which isProjectFinished handles).
-        if (isProjectFinished(p) || isDailyProjectDoneToday(p, appHistory)) {
+        if (isProjectFinished(p, settings) || isDailyProjectDoneToday(p, appHistory, settings)) {
             finished.push(p);
         } else {
             active.push(p);
         }
     });
     return { activeProjects: active, finishedProjects: finished };
-  }, [projects, appHistory]);
+  }, [projects, appHistory, settings]);
+
+  // Busy time from imported calendars shrinks each day's capacity in the finish estimates
+  const busyMinutesByDay = useMemo(() => getBusyMinutesByDay(busyBlocks, settings), [busyBlocks, settings]);
 
   // Determine if the selected project is late
   const isSelectedProjectLate = useMemo(() => {
-    if (!selectedProject || selectedProject.isDaily || isProjectFinished(selectedProject)) return false;
-    const estFinish = getEstimatedFinishDate(selectedProject, settings.dailyPomodoroTarget);
+    if (!selectedProject || selectedProject.isDaily || isProjectFinished(selectedProject, settings)) return false;
+    const estFinish = getEstimatedFinishDate(selectedProject, settings.dailyPomodoroTarget, settings, busyMinutesByDay);
     return estFinish ? new Date() > estFinish : false;
-  }, [selectedProject, settings.dailyPomodoroTarget]);
+  }, [selectedProject, settings, busyMinutesByDay]);
+
+  // Stable between timer ticks so the merge preview only recomputes when data changes
+  const currentAppData = useMemo<AppData>(
+    () => ({ version: CURRENT_DATA_VERSION, projects, appHistory, dayNotes, dayAgendas, busyBlocks, settings }),
+    [projects, appHistory, dayNotes, dayAgendas, busyBlocks, settings]
+  );
+
+  const goalStreak = useMemo(() => getGoalStreak(appHistory, settings), [appHistory, settings]);
+  const selectedProjectStreak = useMemo(() => {
+    if (!selectedProject?.isDaily) return null;
+    return getProjectStreaks([selectedProject], appHistory, settings)[0] ?? null;
+  }, [selectedProject, appHistory, settings]);
+
+  const openView = (view: 'timer' | 'performance' | 'agenda') => {
+    setIsPerformanceViewOpen(view === 'performance');
+    setIsCalendarViewOpen(view === 'agenda');
+  };
+
+  const selectSubtask = (projectId: string, subtaskId: string) => {
+    setSelectedProjectId(projectId);
+    setActiveSubtaskId(subtaskId);
+    openView('timer');
+  };
+
+  // Moves the active subtask through the selected project's list, wrapping at either end
+  const stepActiveSubtask = (direction: 1 | -1) => {
+    if (!selectedProject || selectedProject.subtasks.length === 0) return;
+    const tasks = selectedProject.subtasks;
+    const index = tasks.findIndex(t => t.id === activeSubtaskId);
+    const next = index === -1 ? (direction === 1 ? 0 : tasks.length - 1) : (index + direction + tasks.length) % tasks.length;
+    setActiveSubtaskId(tasks[next].id);
+  };
+
+  const shortcutHandlers: Record<ShortcutAction, () => void> = {
+    toggleTimer,
+    skipTimer,
+    resetTimer,
+    focusMode: () => jumpToMode(TimerMode.POMODORO),
+    shortBreakMode: () => jumpToMode(TimerMode.SHORT_BREAK),
+    longBreakMode: () => jumpToMode(TimerMode.LONG_BREAK),
+    openTimer: () => openView('timer'),
+    openPerformance: () => openView('performance'),
+    openAgenda: () => openView('agenda'),
+    openSettings: () => setIsSettingsModalOpen(true),
+    newProject: () => setIsAddProjectModalOpen(true),
+    newSubtask: () => {
+      if (!selectedProject) return;
+      openView('timer');
+      resetSubtaskForm();
+      setIsAddSubtaskModalOpen(true);
+    },
+    nextSubtask: () => stepActiveSubtask(1),
+    previousSubtask: () => stepActiveSubtask(-1),
+    commandPalette: () => setIsCommandPaletteOpen(open => !open)
+  };
+
+  const isAnyModalOpen = isSettingsModalOpen || isAddProjectModalOpen || isEditProjectModalOpen || isAddSubtaskModalOpen
+    || isEditSubtaskModalOpen || isHistoryCsvOpen || isWeeklyReportOpen || !!importReport || !!pendingImport || !!recoveredTimer;
+
+  // Store handlers in ref so the keyboard listener is only attached once
+  const shortcutStateRef = useRef({ shortcuts: settings.shortcuts, handlers: shortcutHandlers, isAnyModalOpen });
+  shortcutStateRef.current = { shortcuts: settings.shortcuts, handlers: shortcutHandlers, isAnyModalOpen };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.repeat || e.defaultPrevented) return;
+      const binding = getEventBinding(e);
+      if (!binding) return;
+      const { shortcuts, handlers, isAnyModalOpen } = shortcutStateRef.current;
+      const action = findShortcutAction(shortcuts, binding);
+      if (!action) return;
+      // Only the palette toggle works on top of dialogs; plain keys never fire while typing
+      if (isAnyModalOpen && action !== 'commandPalette') return;
+      if (isTypingTarget(e.target) && !hasModifier(binding)) return;
+      e.preventDefault();
+      handlers[action]();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const paletteItems = useMemo<PaletteItem[]>(() => {
+    const commands: PaletteItem[] = SHORTCUT_ACTIONS
+      .filter(({ action }) => action !== 'commandPalette')
+      .map(({ action, label }) => ({
+        id: `command:${action}`,
+        kind: 'command',
+        label,
+        hint: settings.shortcuts[action] ? formatBinding(settings.shortcuts[action]) : undefined,
+        run: () => shortcutStateRef.current.handlers[action]()
+      }));
+    commands.push(
+      { id: 'command:undo', kind: 'command', label: 'Undo', hint: formatBinding('Ctrl+z'), run: () => undoHandlersRef.current.handleUndo() },
+      { id: 'command:redo', kind: 'command', label: 'Redo', hint: formatBinding('Ctrl+y'), run: () => undoHandlersRef.current.handleRedo() },
+      { id: 'command:weeklyReview', kind: 'command', label: 'Open weekly review', run: () => setIsWeeklyReportOpen(true) }
+    );
+    const projectItems: PaletteItem[] = projects.map(project => ({
+      id: `project:${project.id}`,
+      kind: 'project',
+      label: project.name,
+      run: () => { setSelectedProjectId(project.id); openView('timer'); }
+    }));
+    const subtaskItems: PaletteItem[] = projects.flatMap(project => project.subtasks.map(task => ({
+      id: `subtask:${task.id}`,
+      kind: 'subtask' as const,
+      label: task.name,
+      detail: project.name,
+      run: () => selectSubtask(project.id, task.id)
+    })));
+    return [...commands, ...projectItems, ...subtaskItems];
+  }, [projects, settings.shortcuts]);
 
   const SidebarProjectItem: React.FC<{ project: Project }> = ({ project }) => {
-    let stats;
-    if (project.isDaily) {
-        const todayStr = getLogDateString();
-        const dailyDone = getDailyProjectCompletion(project.id, todayStr, appHistory);
-        const dailyTarget = project.subtasks.reduce((sum, t) => sum + t.targetSessions, 0);
-        stats = { totalSessions: dailyTarget, completedSessions: dailyDone };
-    } else {
-        stats = calculateProjectStats(project.subtasks);
-    }
+    const stats = calculateProjectStats(project, appHistory, settings);
 
     const isLate = useMemo(() => {
-        if (project.isDaily || isProjectFinished(project)) return false;
-        const estFinish = getEstimatedFinishDate(project, settings.dailyPomodoroTarget);
+        if (project.isDaily || isProjectFinished(project, settings)) return false;
+        const estFinish = getEstimatedFinishDate(project, settings.dailyPomodoroTarget, settings, busyMinutesByDay);
         return estFinish ? new Date() > estFinish : false;
-    }, [project]);
+    }, [project, settings, busyMinutesByDay]);
     
     return (
         <div onClick={() => { setSelectedProjectId(project.id); setIsPerformanceViewOpen(false); setIsCalendarViewOpen(false); }} className={`p-4 rounded-lg cursor-pointer transition-all border ${selectedProjectId === project.id ? 'bg-white/20 border-white/40 shadow-lg' : 'bg-white/5 border-transparent hover:bg-white/10'}`}>
@@ -568,12 +1124,12 @@ const App: React.FC = () => {
                 {project.isDaily && <Repeat className="w-3 h-3 text-yellow-300" />}
                 {isLate && <AlertTriangle className="w-3 h-3 text-red-400" />}
                 {/* Check circle for standard finished projects OR daily projects finished today */}
-                {(isProjectFinished(project) || (project.isDaily && isDailyProjectDoneToday(project, appHistory))) && !project.isDaily && <CheckCircle className="w-3 h-3 text-emerald-400" />}
-                {project.isDaily && isDailyProjectDoneToday(project, appHistory) && <CheckCircle className="w-3 h-3 text-emerald-400" />}
+                {(isProjectFinished(project, settings) || (project.isDaily && isDailyProjectDoneToday(project, appHistory, settings))) && !project.isDaily && <CheckCircle className="w-3 h-3 text-emerald-400" />}
+                {project.isDaily && isDailyProjectDoneToday(project, appHistory, settings) && <CheckCircle className="w-3 h-3 text-emerald-400" />}
                 </div>
                 {project.description && <p className="text-[10px] opacity-40 truncate">{project.description}</p>}
             </div>
-            <button onClick={(e) => { e.stopPropagation(); if (window.confirm("Delete project?")) { setProjects(prev => prev.filter(p => p.id !== project.id)); if (selectedProjectId === project.id) setSelectedProjectId(null); } }} className="text-white/50 hover:text-white p-1"><Trash2 className="w-4 h-4" /></button>
+            <button onClick={(e) => { e.stopPropagation(); handleDeleteProject(project.id); }} className="text-white/50 hover:text-white p-1"><Trash2 className="w-4 h-4" /></button>
             </div>
             <div className="w-full bg-black/20 rounded-full h-1.5 overflow-hidden">
             <div className="bg-white h-1.5 rounded-full transition-all duration-500" style={{ width: `${stats.totalSessions > 0 ? (stats.completedSessions / stats.totalSessions) * 100 : 0}%` }} />
@@ -582,6 +1138,11 @@ const App: React.FC = () => {
     );
   };
 
+  const timeZones = useMemo(() => {
+    const zones = getSupportedTimeZones();
+    return zones.includes(settings.timeZone) ? zones : [settings.timeZone, ...zones];
+  }, [settings.timeZone]);
+
   const fieldStyle = { colorScheme: 'light' } as React.CSSProperties;
   const inputClass = "w-full !bg-white !text-gray-900 border border-gray-300 rounded px-3 py-2 focus:ring-2 focus:ring-rose-500 outline-none transition-all placeholder:text-gray-400";
   const textareaClass = "w-full !bg-white !text-gray-900 border border-gray-300 rounded px-3 py-2 focus:ring-2 focus:ring-rose-500 outline-none transition-all placeholder:text-gray-400 min-h-[100px] resize-y text-sm leading-relaxed";
@@ -602,7 +1163,7 @@ const App: React.FC = () => {
           <div className="bg-white/10 p-12 rounded-3xl border-4 border-dashed border-white/30 flex flex-col items-center gap-6">
             <FileJson className="w-24 h-24 text-white/50" />
             <div className="text-3xl font-bold text-white">Drop JSON file to Import</div>
-            <div className="text-white/60">Overwrite current data with file content</div>
+            <div className="text-white/60">Choose to replace or merge with your current data</div>
           </div>
         </div>
       )}
@@ -661,11 +1222,14 @@ const App: React.FC = () => {
           </div>
 
           <div className="mt-6 pt-6 border-t border-white/10 space-y-2">
+             <SaveIndicator status={saveStatus} />
              <button onClick={() => setIsSettingsModalOpen(true)} className="w-full flex items-center gap-3 px-4 py-2 rounded hover:bg-white/10 transition-colors text-sm"><Settings className="w-4 h-4" /> Settings</button>
              <button onClick={() => { setIsPerformanceViewOpen(true); setIsCalendarViewOpen(false); }} className={`w-full flex items-center gap-3 px-4 py-2 rounded transition-colors text-sm ${isPerformanceViewOpen ? 'bg-white/30' : 'hover:bg-white/10'}`}><BarChart3 className="w-4 h-4" /> Performance</button>
              <button onClick={() => { setIsCalendarViewOpen(true); setIsPerformanceViewOpen(false); }} className={`w-full flex items-center gap-3 px-4 py-2 rounded transition-colors text-sm ${isCalendarViewOpen ? 'bg-white/30' : 'hover:bg-white/10'}`}><CalendarIcon className="w-4 h-4" /> Agenda</button>
              <button onClick={handleExport} className="w-full flex items-center gap-3 px-4 py-2 rounded hover:bg-white/10 transition-colors text-sm"><Download className="w-4 h-4" /> Export Data</button>
              <label className="w-full flex items-center gap-3 px-4 py-2 rounded hover:bg-white/10 transition-colors text-sm cursor-pointer"><Upload className="w-4 h-4" /> Import Data<input type="file" ref={fileInputRef} onChange={handleImport} accept=".json" className="hidden" /></label>
+             <button onClick={() => setIsHistoryCsvOpen(true)} className="w-full flex items-center gap-3 px-4 py-2 rounded hover:bg-white/10 transition-colors text-sm"><FileSpreadsheet className="w-4 h-4" /> History CSV</button>
+             <button onClick={() => setIsWeeklyReportOpen(true)} className="w-full flex items-center gap-3 px-4 py-2 rounded hover:bg-white/10 transition-colors text-sm"><NotebookText className="w-4 h-4" /> Weekly Review</button>
           </div>
         </div>
       </div>
@@ -684,7 +1248,10 @@ const App: React.FC = () => {
                 <h2 className="text-3xl font-bold flex items-center gap-3"><BarChart3 className="w-8 h-8" /> Performance Analytics</h2>
                 <button onClick={() => setIsPerformanceViewOpen(false)} className="flex items-center gap-2 bg-white/20 px-4 py-2 rounded-lg hover:bg-white/30 transition-colors"><ArrowLeft className="w-4 h-4" /> Back to Timer</button>
               </div>
-              <PerformanceGraph data={appHistory} isMainView={true} />
+              <PerformanceGraph data={appHistory} projects={projects} settings={settings} isMainView={true} />
+              <GoalStreaks data={appHistory} projects={projects} settings={settings} />
+              <ProductivityPatterns data={appHistory} projects={projects} settings={settings} />
+              <InterruptionStats data={appHistory} projects={projects} settings={settings} />
             </div>
           ) : isCalendarViewOpen ? (
             <div className="w-full max-w-5xl animate-fade-in-up mt-8 bg-white/10 backdrop-blur-md rounded-3xl p-8 shadow-2xl">
@@ -700,12 +1267,18 @@ const App: React.FC = () => {
                 onProjectSelect={setSelectedProjectId}
                 onActivateProject={handleActivateProject}
                 dayNotes={dayNotes}
-                onUpdateDayNote={(date, note) => setDayNotes(prev => ({...prev, [date]: note}))}
+                onUpdateDayNote={(date, note) => { recordUndo('Note edited', `note:${date}`); setDayNotes(prev => ({...prev, [date]: note})); }}
                 dayAgendas={dayAgendas}
-                onUpdateDayAgenda={(date, hour, text) => setDayAgendas(prev => ({
-                  ...prev,
-                  [date]: { ...(prev[date] || {}), [hour]: text }
-                }))}
+                onUpdateDayAgenda={(date, hour, text) => {
+                  recordUndo('Agenda edited', `agenda:${date}:${hour}`);
+                  setDayAgendas(prev => ({
+                    ...prev,
+                    [date]: { ...(prev[date] || {}), [hour]: text }
+                  }));
+                }}
+                busyBlocks={busyBlocks}
+                onImportBusyBlocks={handleBusyBlocksImport}
+                onRemoveBusySource={handleRemoveBusySource}
               />
             </div>
           ) : (
@@ -713,19 +1286,25 @@ const App: React.FC = () => {
               {/* Timer View */}
               <div className="text-center mb-8 animate-fade-in mt-12 md:mt-0 w-full max-w-md">
                 <h2 className="text-3xl font-bold mb-2">Welcome Back, Furkan</h2>
-                <p className="text-white/80 text-lg opacity-90 mb-4">{getIstanbulDate()}</p>
+                <p className="text-white/80 text-lg opacity-90 mb-4">{getTodayLabel(settings)}</p>
                 <div className="w-full h-2 bg-white/20 rounded-full overflow-hidden backdrop-blur-sm">
                   <div className="h-full bg-white transition-all duration-1000 ease-linear shadow-[0_0_10px_rgba(255,255,255,0.5)]" style={{ width: `${progressPercentage}%` }}></div>
                 </div>
+                <div className="flex items-center justify-center gap-4 mt-3 text-sm text-white/80">
+                  <span className="flex items-center gap-1.5" title={`Longest streak: ${goalStreak.longest} days`}><Flame className={`w-4 h-4 ${goalStreak.current > 0 ? 'text-orange-300' : 'opacity-50'}`} /> {goalStreak.current} day streak</span>
+                  <span className="opacity-40">|</span>
+                  <span className={goalStreak.isTodayMet ? 'font-bold' : ''}>{goalStreak.todaySessions} / {goalStreak.target} sessions today{goalStreak.isTodayMet && ' ✓'}</span>
+                </div>
               </div>
 
               <div className="bg-white/10 backdrop-blur-md rounded-3xl p-8 w-full max-w-[480px] shadow-2xl mb-8 transform transition-all duration-300">
                 <div className="flex justify-center gap-2 mb-8 bg-black/20 p-1 rounded-full self-center mx-auto w-fit">
-                   {[TimerMode.POMODORO, TimerMode.SHORT_BREAK, TimerMode.LONG_BREAK].map(mode => (
-                     <button key={mode} onClick={() => { setIsActive(false); setTimerMode(mode); }} className={`px-4 py-1.5 rounded-full text-sm font-medium transition-all ${timerMode === mode ? 'bg-white/20 font-bold shadow-sm' : 'hover:bg-white/10 text-white/70'}`}>{mode === TimerMode.POMODORO ? 'Pomodoro' : mode === TimerMode.SHORT_BREAK ? 'Short Break' : 'Long Break'}</button>
+                   {[TimerMode.POMODORO, TimerMode.SHORT_BREAK, TimerMode.LONG_BREAK].filter(mode => cycle.some(step => step.mode === mode)).map(mode => (
+                     <button key={mode} onClick={() => jumpToMode(mode)} className={`px-4 py-1.5 rounded-full text-sm font-medium transition-all ${timerMode === mode ? 'bg-white/20 font-bold shadow-sm' : 'hover:bg-white/10 text-white/70'}`}>{mode === TimerMode.POMODORO ? 'Pomodoro' : mode === TimerMode.SHORT_BREAK ? 'Short Break' : 'Long Break'}</button>
                    ))}
                 </div>
-                <div className="text-9xl font-bold text-center font-mono tracking-tight mb-8 drop-shadow-lg select-none">{formatTime(timeLeft)}</div>
+                <div className="text-9xl font-bold text-center font-mono tracking-tight mb-4 drop-shadow-lg select-none">{formatTime(timeLeft)}</div>
+                <CycleProgress cycle={cycle} stepIndex={stepIndex} onSelectStep={jumpToStep} />
                 <div className="flex items-center justify-center gap-6">
                    <button onClick={resetTimer} className="p-4 bg-white/20 rounded-2xl hover:bg-white/30 transition-all active:scale-95 group" title="Reset Timer">
                       <RotateCcw className="w-8 h-8 group-hover:rotate-[-45deg] transition-transform" />
@@ -737,6 +1316,20 @@ const App: React.FC = () => {
                       <SkipForward className="w-8 h-8" />
                    </button>
                 </div>
+                {isHydrated && !isTimerOwner && (
+                  <p className="mt-4 text-center text-xs text-white/50">Another Studybook tab runs this timer; controls here act on it too.</p>
+                )}
+                {openInterruption && (
+                  <div className="mt-6 pt-4 border-t border-white/10 animate-fade-in">
+                    <div className="text-xs font-bold uppercase tracking-wider text-white/60 mb-2 text-center">What interrupted you?</div>
+                    <div className="flex justify-center gap-2 mb-3">
+                      {(['internal', 'external'] as InterruptionType[]).map(type => (
+                        <button key={type} onClick={() => labelInterruption(type, openInterruption.reason || '')} className={`px-4 py-1 rounded-full text-sm font-medium transition-all ${openInterruption.type === type ? 'bg-white/30 font-bold shadow-sm' : 'bg-white/10 hover:bg-white/20 text-white/70'}`}>{type === 'internal' ? 'Internal' : 'External'}</button>
+                      ))}
+                    </div>
+                    <input type="text" value={openInterruption.reason || ''} onChange={(e) => labelInterruption(openInterruption.type || 'internal', e.target.value)} placeholder="Reason (optional)" className="w-full bg-black/20 border border-white/10 rounded-lg px-3 py-2 text-sm text-white placeholder-white/40 outline-none focus:border-white/40" />
+                  </div>
+                )}
               </div>
 
               <div className="mb-8 text-center h-8">
@@ -752,6 +1345,7 @@ const App: React.FC = () => {
                          <h2 className="text-2xl font-bold">{selectedProject.name}</h2>
                          {selectedProject.category === 'work' ? <Briefcase className="w-4 h-4 text-blue-300" /> : <User className="w-4 h-4 text-purple-300" />}
                          {selectedProject.isDaily && <div className="bg-yellow-400 text-black text-[10px] font-bold px-2 py-0.5 rounded-full uppercase tracking-wider flex items-center gap-1"><Repeat className="w-3 h-3" /> Daily</div>}
+                         {selectedProjectStreak && selectedProjectStreak.current > 0 && <div className="bg-orange-400/20 text-orange-200 text-[10px] font-bold px-2 py-0.5 rounded-full uppercase tracking-wider flex items-center gap-1 border border-orange-400/50" title={`Longest streak: ${selectedProjectStreak.longest} days`}><Flame className="w-3 h-3" /> {selectedProjectStreak.current}</div>}
                          {isSelectedProjectLate && <div className="bg-red-500/20 text-red-400 text-[10px] font-bold px-2 py-0.5 rounded-full uppercase tracking-wider flex items-center gap-1 border border-red-500/50"><AlertTriangle className="w-3 h-3" /> Late</div>}
                          <button onClick={() => openEditProjectModal(selectedProject)} className="ml-3 p-1.5 hover:bg-white/10 rounded-lg text-white/60 hover:text-white transition-colors" title="Edit Project"><Edit2 className="w-5 h-5" /></button>
                        </div>
@@ -771,7 +1365,7 @@ const App: React.FC = () => {
                       let completedCount = task.completedSessions;
 
                       if (selectedProject.isDaily) {
-                        completedCount = getSubtaskCompletionToday(task.id, appHistory);
+                        completedCount = getSubtaskCompletionToday(task.id, appHistory, settings);
                         isDone = completedCount >= task.targetSessions;
                       } else {
                         isDone = task.completedSessions >= task.targetSessions;
@@ -815,7 +1409,7 @@ const App: React.FC = () => {
                                       <button onClick={(e) => { e.stopPropagation(); updateSessionTarget(selectedProject.id, task.id, 1); }} className="p-1 hover:bg-white/20 rounded transition-colors"><Plus className="w-4 h-4" /></button>
                                     </div>
                                     <button onClick={(e) => { e.stopPropagation(); openEditSubtask(task); }} className="p-1 hover:bg-white/20 text-white/70"><Edit2 className="w-4 h-4" /></button>
-                                    <button onClick={(e) => { e.stopPropagation(); if (window.confirm("Delete subtask?")) setProjects(prev => prev.map(p => p.id !== selectedProject.id ? p : { ...p, subtasks: p.subtasks.filter(t => t.id !== task.id) })); }} className="p-1 hover:bg-white/20 text-white/70"><Trash2 className="w-5 h-5" /></button>
+                                    <button onClick={(e) => { e.stopPropagation(); handleDeleteSubtask(selectedProject.id, task.id); }} className="p-1 hover:bg-white/20 text-white/70"><Trash2 className="w-5 h-5" /></button>
                                 </div>
                               </div>
                               {isExpanded && task.description && (
@@ -846,6 +1440,23 @@ const App: React.FC = () => {
       </div>
 
       <AppSessionTimer onUpdate={handleAppTimerUpdate} />
+      <UndoToast
+        toast={undoToast}
+        onAction={() => undoToast?.action === 'redo' ? handleRedo() : handleUndo()}
+        onDismiss={() => setUndoToast(null)}
+      />
+
+      <CommandPalette isOpen={isCommandPaletteOpen} items={paletteItems} onClose={() => setIsCommandPaletteOpen(false)} />
+
+      <UpdateBanner isVisible={isUpdateAvailable} onReload={handleReloadForUpdate} onDismiss={() => setIsUpdateAvailable(false)} />
+
+      <ResumeTimerModal
+        state={recoveredTimer}
+        projects={projects}
+        onResume={handleResumeRecoveredTimer}
+        onLogCompleted={handleLogRecoveredTimer}
+        onDiscard={handleDiscardRecoveredTimer}
+      />
 
       {/* Settings Modal */}
       <Modal isOpen={isSettingsModalOpen} onClose={() => setIsSettingsModalOpen(false)} title="Settings">
@@ -856,28 +1467,142 @@ const App: React.FC = () => {
                {Object.keys(settings.durations).map((key) => (
                  <div key={key}>
                    <label className="block text-sm text-gray-500 mb-1 capitalize">{key.replace(/([A-Z])/g, ' $1')}</label>
-                   <input type="number" style={fieldStyle} value={settings.durations[key as keyof typeof settings.durations]} onChange={(e) => setSettings({...settings, durations: {...settings.durations, [key]: parseInt(e.target.value) || 1}})} className={inputClass} />
+                   <input type="number" style={fieldStyle} value={settings.durations[key as keyof typeof settings.durations]} onChange={(e) => updateSettings({...settings, durations: {...settings.durations, [key]: parseInt(e.target.value) || 1}}, `durations.${key}`)} className={inputClass} />
                  </div>
                ))}
              </div>
            </div>
+           <div>
+             <h3 className="text-gray-400 uppercase text-xs font-bold tracking-wider mb-3">Cycle</h3>
+             {settings.customCycle.length === 0 ? (
+               <div className="flex items-end gap-4">
+                 <div className="flex-1">
+                   <label className="block text-sm text-gray-500 mb-1">Long Break After (pomodoros)</label>
+                   <input type="number" min="1" style={fieldStyle} value={settings.longBreakInterval} onChange={(e) => updateSettings({...settings, longBreakInterval: Math.max(1, parseInt(e.target.value) || 1)}, 'longBreakInterval')} className={inputClass} />
+                 </div>
+                 <Button variant="secondary" onClick={() => updateCustomCycle(cycle)}>Customize Sequence</Button>
+               </div>
+             ) : (
+               <div className="space-y-2">
+                 {settings.customCycle.map((step, index) => (
+                   <div key={index} className="flex items-center gap-2">
+                     <span className="w-5 text-xs text-gray-400 font-mono text-right">{index + 1}</span>
+                     <select style={fieldStyle} value={step.mode} onChange={(e) => updateCycleStep(index, { mode: e.target.value as TimerMode })} className={`${selectClass} !w-36`}>
+                       <option value={TimerMode.POMODORO}>Focus</option>
+                       <option value={TimerMode.SHORT_BREAK}>Short Break</option>
+                       <option value={TimerMode.LONG_BREAK}>Long Break</option>
+                     </select>
+                     <input type="number" min="1" style={fieldStyle} value={step.minutes} onChange={(e) => updateCycleStep(index, { minutes: Math.max(1, parseInt(e.target.value) || 1) })} className={`${inputClass} !w-20`} title="Minutes" />
+                     <input type="text" style={fieldStyle} value={step.label || ''} onChange={(e) => updateCycleStep(index, { label: e.target.value || undefined })} placeholder="Label (optional)" className={inputClass} />
+                     <button onClick={() => updateCustomCycle(settings.customCycle.filter((_, i) => i !== index))} className="p-2 text-gray-400 hover:text-red-500" title="Remove Step"><Trash2 className="w-4 h-4" /></button>
+                   </div>
+                 ))}
+                 <div className="flex justify-between pt-1">
+                   <Button variant="secondary" onClick={() => updateCustomCycle([...settings.customCycle, { mode: TimerMode.POMODORO, minutes: settings.durations.pomodoro }])}><Plus className="w-4 h-4" /> Add Step</Button>
+                   <Button variant="secondary" onClick={() => updateCustomCycle([])}><RotateCcw className="w-4 h-4" /> Default Rotation</Button>
+                 </div>
+               </div>
+             )}
+             <p className="text-[10px] text-gray-400 mt-1 italic">A custom sequence such as 50/10 ×3 then 30 replaces the durations above. Focus steps are logged as pomodoros.</p>
+           </div>
            <div>
              <h3 className="text-gray-400 uppercase text-xs font-bold tracking-wider mb-3">Targeting</h3>
              <div className="grid grid-cols-1 gap-4">
                <div>
                  <label className="block text-sm text-gray-500 mb-1">Daily Pomodoro Target</label>
-                 <input type="number" min="1" style={fieldStyle} value={settings.dailyPomodoroTarget} onChange={(e) => setSettings({...settings, dailyPomodoroTarget: parseInt(e.target.value) || 1})} className={inputClass} />
-                 <p className="text-[10px] text-gray-400 mt-1 italic">Used for estimating project spans on the calendar.</p>
+                 <input type="number" min="1" style={fieldStyle} value={settings.dailyPomodoroTarget} onChange={(e) => updateSettings({...settings, dailyPomodoroTarget: parseInt(e.target.value) || 1}, 'dailyPomodoroTarget')} className={inputClass} />
+                 <p className="text-[10px] text-gray-400 mt-1 italic">Used for estimating project spans on the calendar and for the daily goal streak.</p>
+               </div>
+               <div>
+                 <label className="block text-sm text-gray-500 mb-1">Rest Days</label>
+                 <div className="flex gap-1">
+                   {['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].map((name, day) => {
+                     const isRest = settings.restDays.includes(day);
+                     return (
+                       <button
+                         key={day}
+                         onClick={() => updateSettings({...settings, restDays: isRest ? settings.restDays.filter(d => d !== day) : [...settings.restDays, day].sort((a, b) => a - b)}, 'restDays')}
+                         className={`flex-1 py-1.5 rounded text-sm font-medium border transition-colors ${isRest ? 'bg-rose-500 text-white border-rose-500' : 'bg-white text-gray-600 border-gray-300 hover:bg-gray-50'}`}
+                       >
+                         {name}
+                       </button>
+                     );
+                   })}
+                 </div>
+                 <p className="text-[10px] text-gray-400 mt-1 italic">Missing the target on a rest day doesn't break a streak.</p>
+               </div>
+               <div>
+                 <label className="block text-sm text-gray-500 mb-1">Partial Session Credit (%)</label>
+                 <input type="number" min="0" max="100" style={fieldStyle} value={settings.partialSessionThreshold} onChange={(e) => updateSettings({...settings, partialSessionThreshold: Math.min(100, Math.max(0, parseInt(e.target.value) || 0))}, 'partialSessionThreshold')} className={inputClass} />
+                 <p className="text-[10px] text-gray-400 mt-1 italic">A skipped or reset pomodoro counts toward its subtask once this much of it was done.</p>
                </div>
              </div>
            </div>
+           <div>
+             <h3 className="text-gray-400 uppercase text-xs font-bold tracking-wider mb-3">Day Boundaries</h3>
+             <div className="grid grid-cols-2 gap-4">
+               <div>
+                 <label className="block text-sm text-gray-500 mb-1">Time Zone</label>
+                 <select style={fieldStyle} value={settings.timeZone} onChange={(e) => updateSettings({...settings, timeZone: e.target.value}, 'timeZone')} className={selectClass}>
+                   {timeZones.map(zone => <option key={zone} value={zone}>{zone.replace(/_/g, ' ')}</option>)}
+                 </select>
+               </div>
+               <div>
+                 <label className="block text-sm text-gray-500 mb-1">Day Starts At</label>
+                 <select style={fieldStyle} value={settings.dayStartHour} onChange={(e) => updateSettings({...settings, dayStartHour: parseInt(e.target.value) || 0}, 'dayStartHour')} className={selectClass}>
+                   {Array.from({ length: 13 }, (_, hour) => <option key={hour} value={hour}>{`${hour.toString().padStart(2, '0')}:00`}</option>)}
+                 </select>
+               </div>
+             </div>
+             <p className="text-[10px] text-gray-400 mt-1 italic">Sessions before the start hour count toward the previous day.</p>
+           </div>
+           <div>
+             <h3 className="text-gray-400 uppercase text-xs font-bold tracking-wider mb-3">Sounds & Notifications</h3>
+             <div className="grid grid-cols-3 gap-4">
+               {([['focusEnd', 'Focus End'], ['breakEnd', 'Break End'], ['warning', 'Warning']] as [keyof AppSettings['sounds'], string][]).map(([key, label]) => (
+                 <div key={key}>
+                   <label className="block text-sm text-gray-500 mb-1">{label}</label>
+                   <div className="flex gap-1">
+                     <select style={fieldStyle} value={settings.sounds[key]} onChange={(e) => updateSettings({...settings, sounds: {...settings.sounds, [key]: e.target.value as SoundId}}, `sounds.${key}`)} className={selectClass}>
+                       {SOUND_OPTIONS.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+                     </select>
+                     <button onClick={() => { unlockAudio(); playSound(settings.sounds[key], settings.volume); }} className="p-2 text-gray-400 hover:text-gray-700" title="Preview"><Volume2 className="w-4 h-4" /></button>
+                   </div>
+                 </div>
+               ))}
+             </div>
+             <div className="grid grid-cols-2 gap-4 mt-4">
+               <div>
+                 <label className="block text-sm text-gray-500 mb-1">Volume ({settings.volume}%)</label>
+                 <input type="range" min="0" max="100" step="5" value={settings.volume} onChange={(e) => updateSettings({...settings, volume: parseInt(e.target.value)}, 'volume')} className="w-full accent-rose-500 mt-2" />
+               </div>
+               <div>
+                 <label className="block text-sm text-gray-500 mb-1">Warn Before End (minutes)</label>
+                 <input type="number" min="0" max="60" style={fieldStyle} value={settings.warningMinutes} onChange={(e) => updateSettings({...settings, warningMinutes: Math.min(60, Math.max(0, parseInt(e.target.value) || 0))}, 'warningMinutes')} className={inputClass} />
+               </div>
+             </div>
+             <div className="flex items-center gap-2 p-2 mt-4 bg-gray-50 rounded-lg border">
+               <input type="checkbox" id="notifications" checked={settings.notifications} onChange={(e) => handleToggleNotifications(e.target.checked)} className="w-4 h-4" />
+               <label htmlFor="notifications" className="text-sm font-medium flex-1 cursor-pointer">Desktop notifications</label>
+             </div>
+             {notificationsBlocked && <p className="text-[10px] text-red-400 mt-1 italic">Notifications are blocked for this site in the browser settings.</p>}
+             <p className="text-[10px] text-gray-400 mt-1 italic">0 minutes turns the warning off. Sounds are generated in the browser and work offline.</p>
+           </div>
+           <div>
+             <div className="flex justify-between items-center mb-3">
+               <h3 className="text-gray-400 uppercase text-xs font-bold tracking-wider">Keyboard Shortcuts</h3>
+               <button onClick={() => updateSettings({...settings, shortcuts: DEFAULT_SETTINGS.shortcuts}, 'shortcuts')} className="text-xs text-gray-400 hover:text-gray-700">Restore defaults</button>
+             </div>
+             <ShortcutSettings shortcuts={settings.shortcuts} onChange={handleShortcutChange} />
+             <p className="text-[10px] text-gray-400 mt-1 italic">Click a shortcut and press the new keys. Backspace removes it, Escape cancels.</p>
+           </div>
            <div>
              <h3 className="text-gray-400 uppercase text-xs font-bold tracking-wider mb-3">Theme Colors</h3>
              <div className="grid grid-cols-3 gap-4">
                {Object.keys(settings.colors).map((key) => (
                  <div key={key}>
                    <label className="block text-sm text-gray-500 mb-1 capitalize">{key}</label>
-                   <input type="color" style={fieldStyle} value={settings.colors[key as keyof typeof settings.colors]} onChange={(e) => setSettings({...settings, colors: {...settings.colors, [key]: e.target.value}})} className="w-full h-10 rounded cursor-pointer border border-gray-300 bg-white p-1" />
+                   <input type="color" style={fieldStyle} value={settings.colors[key as keyof typeof settings.colors]} onChange={(e) => updateSettings({...settings, colors: {...settings.colors, [key]: e.target.value}}, `colors.${key}`)} className="w-full h-10 rounded cursor-pointer border border-gray-300 bg-white p-1" />
                  </div>
                ))}
              </div>
@@ -886,6 +1611,31 @@ const App: React.FC = () => {
         </div>
       </Modal>
 
+      <ImportPreviewModal
+        pending={pendingImport}
+        current={currentAppData}
+        onReplace={() => pendingImport && finishImport(pendingImport.data, 'Backup imported')}
+        onMerge={(merged) => finishImport(merged, 'Backup merged')}
+        onCancel={() => setPendingImport(null)}
+      />
+      <ImportReportModal report={importReport} subject={importReportSubject} onClose={() => setImportReport(null)} />
+      <HistoryCsvModal
+        isOpen={isHistoryCsvOpen}
+        history={appHistory}
+        projects={projects}
+        settings={settings}
+        onImport={handleCsvImport}
+        onClose={() => setIsHistoryCsvOpen(false)}
+      />
+      <WeeklyReportModal
+        isOpen={isWeeklyReportOpen}
+        projects={projects}
+        history={appHistory}
+        dayNotes={dayNotes}
+        settings={settings}
+        onClose={() => setIsWeeklyReportOpen(false)}
+      />
+
       {/* New Project Modal */}
       <Modal isOpen={isAddProjectModalOpen} onClose={() => setIsAddProjectModalOpen(false)} title="New Project">
         <div className="space-y-4 text-gray-800">
@@ -975,6 +1725,11 @@ const App: React.FC = () => {
              </div>
            )}
 
+           <div className="space-y-1">
+             <label className="text-[10px] font-bold text-gray-400 uppercase">Pomodoro Length (minutes)</label>
+             <input type="number" min="1" style={fieldStyle} value={editProjectData.pomodoroMinutes} onChange={(e) => setEditProjectData({...editProjectData, pomodoroMinutes: e.target.value})} placeholder={`Default (${settings.durations.pomodoro})`} className={inputClass} />
+           </div>
+
            <div className="space-y-1">
              <label className="text-[10px] font-bold text-gray-400 uppercase">Project Itemized List (Markdown)</label>
              <textarea style={fieldStyle} value={editProjectData.description} onChange={(e) => setEditProjectData({...editProjectData, description: e.target.value})} placeholder="- Item 1..." className={textareaClass} />
@@ -0,0 +1,65 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { AppSettings, BusyBlock } from '../types';
+import { IcsImportResult, importIcs } from '../ics';
+import { CalendarClock, Trash2, Upload } from 'lucide-react';
+
+interface BusyCalendarsMenuProps {
+  busyBlocks: BusyBlock[];
+  settings: AppSettings;
+  onImport: (result: IcsImportResult, source: string) => void;
+  onRemoveSource: (source: string) => void;
+}
+
+export const BusyCalendarsMenu: React.FC<BusyCalendarsMenuProps> = ({ busyBlocks, settings, onImport, onRemoveSource }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const sources = useMemo(() => {
+    const counts = new Map<string, number>();
+    busyBlocks.forEach(block => counts.set(block.source, (counts.get(block.source) || 0) + 1));
+    return [...counts.entries()].sort(([a], [b]) => a.localeCompare(b));
+  }, [busyBlocks]);
+
+  const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      onImport(importIcs(String(e.target?.result ?? ''), file.name, settings), file.name);
+      setIsOpen(false);
+    };
+    reader.readAsText(file);
+  };
+
+  return (
+    <div className="relative">
+      <button onClick={() => setIsOpen(!isOpen)} className="p-2 bg-white/10 rounded-lg hover:bg-white/20 transition-colors" title="Busy time from other calendars (.ics)"><CalendarClock /></button>
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 z-30 w-72 bg-gray-900/95 border border-white/10 rounded-xl shadow-2xl p-4 animate-fade-in">
+          <div className="text-xs font-bold uppercase tracking-wider text-white/50 mb-3">Busy time from other calendars</div>
+          {sources.length > 0 ? (
+            <ul className="space-y-2 mb-4">
+              {sources.map(([source, count]) => (
+                <li key={source} className="flex items-center gap-2 text-sm">
+                  <span className="flex-1 truncate" title={source}>{source}<span className="block text-[10px] text-white/40">{count} {count === 1 ? 'event' : 'events'}</span></span>
+                  <button onClick={() => onRemoveSource(source)} className="p-1.5 rounded-lg text-white/40 hover:text-red-400 hover:bg-white/10 transition-colors" title="Remove this calendar"><Trash2 className="w-4 h-4" /></button>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-xs text-white/40 mb-4">Events from an imported calendar show as busy blocks in the agenda and leave less room for sessions on their days.</p>
+          )}
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="w-full flex items-center justify-center gap-2 bg-white/20 hover:bg-white/30 rounded-lg py-2 text-sm font-medium transition-colors"
+          >
+            <Upload className="w-4 h-4" /> Import .ics
+          </button>
+          <input type="file" ref={fileInputRef} onChange={handleFile} accept=".ics,text/calendar" className="hidden" />
+          <p className="text-[10px] text-white/40 mt-2 italic">Importing a file with the same name again replaces its events.</p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,56 @@
+import React, { useState } from 'react';
+import { AppSessionLog, AppSettings, BusyBlock, Project } from '../types';
+import { IcsExportOptions, exportIcs } from '../ics';
+import { downloadFile, getTodayKey } from '../utils';
+import { CalendarPlus, Download } from 'lucide-react';
+
+interface CalendarExportMenuProps {
+  projects: Project[];
+  history: AppSessionLog[];
+  dayAgendas: Record<string, Record<string, string>>;
+  busyBlocks: BusyBlock[];
+  settings: AppSettings;
+}
+
+const PARTS: { key: keyof IcsExportOptions; label: string; hint: string }[] = [
+  { key: 'projects', label: 'Project schedule', hint: 'All-day events' },
+  { key: 'agenda', label: 'Agenda entries', hint: 'One-hour events' },
+  { key: 'sessions', label: 'Completed pomodoros', hint: 'Timed events' }
+];
+
+export const CalendarExportMenu: React.FC<CalendarExportMenuProps> = ({ projects, history, dayAgendas, busyBlocks, settings }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [options, setOptions] = useState<IcsExportOptions>({ projects: true, agenda: true, sessions: false });
+
+  const handleExport = () => {
+    downloadFile(exportIcs({ projects, history, dayAgendas, busyBlocks, settings }, options), `studybook_${getTodayKey(settings)}.ics`, 'text/calendar;charset=utf-8');
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <button onClick={() => setIsOpen(!isOpen)} className="p-2 bg-white/10 rounded-lg hover:bg-white/20 transition-colors" title="Export to calendar (.ics)"><CalendarPlus /></button>
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 z-30 w-64 bg-gray-900/95 border border-white/10 rounded-xl shadow-2xl p-4 animate-fade-in">
+          <div className="text-xs font-bold uppercase tracking-wider text-white/50 mb-3">Export to calendar</div>
+          <div className="space-y-2 mb-4">
+            {PARTS.map(part => (
+              <label key={part.key} className="flex items-start gap-2 text-sm cursor-pointer">
+                <input type="checkbox" checked={options[part.key]} onChange={(e) => setOptions({ ...options, [part.key]: e.target.checked })} className="mt-0.5" />
+                <span>{part.label}<span className="block text-[10px] text-white/40">{part.hint}</span></span>
+              </label>
+            ))}
+          </div>
+          <button
+            onClick={handleExport}
+            disabled={!options.projects && !options.agenda && !options.sessions}
+            className="w-full flex items-center justify-center gap-2 bg-white/20 hover:bg-white/30 disabled:opacity-40 rounded-lg py-2 text-sm font-medium transition-colors"
+          >
+            <Download className="w-4 h-4" /> Download .ics
+          </button>
+          <p className="text-[10px] text-white/40 mt-2 italic">Importing a newer file updates the events from earlier ones.</p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,11 +1,14 @@
-import React, { useState } from 'react';
-import { Project, AppSessionLog, AppSettings } from '../types';
+import React, { useMemo, useState } from 'react';
+import { Project, AppSessionLog, AppSettings, BusyBlock } from '../types';
+import { IcsImportResult } from '../ics';
+import { getBusyMinutesByDay } from '../utils';
 import { MonthlyCalendar } from './MonthlyCalendar';
 import { GanttChart } from './GanttChart';
 import { GanttTimeline } from './GanttTimeline';
 import { EisenhowerMatrix } from './EisenhowerMatrix';
 import { HistoryView } from './HistoryView';
-import { LayoutGrid, BarChart, ListTodo, Grid3X3, History } from 'lucide-react';
+import { FocusHeatmap } from './FocusHeatmap';
+import { LayoutGrid, BarChart, ListTodo, Grid3X3, History, Flame } from 'lucide-react';
 
 interface CalendarViewProps {
   history: AppSessionLog[];
@@ -18,9 +21,12 @@ interface CalendarViewProps {
   onUpdateDayNote: (date: string, note: string) => void;
   dayAgendas: Record<string, Record<string, string>>;
   onUpdateDayAgenda: (date: string, hour: string, text: string) => void;
+  busyBlocks: BusyBlock[];
+  onImportBusyBlocks: (result: IcsImportResult, source: string) => void;
+  onRemoveBusySource: (source: string) => void;
 }
 
-type Tab = 'agenda' | 'progress' | 'gantt' | 'matrix' | 'history';
+type Tab = 'agenda' | 'heatmap' | 'progress' | 'gantt' | 'matrix' | 'history';
 
 export const CalendarView: React.FC<CalendarViewProps> = ({ 
   history, 
@@ -32,43 +38,66 @@ export const CalendarView: React.FC<CalendarViewProps> = ({
   dayNotes, 
   onUpdateDayNote,
   dayAgendas,
-  onUpdateDayAgenda
+  onUpdateDayAgenda,
+  busyBlocks,
+  onImportBusyBlocks,
+  onRemoveBusySource
 }) => {
   const [activeTab, setActiveTab] = useState<Tab>('agenda');
+  // Day picked on the heatmap, opened once in the agenda's day panel
+  const [agendaDateKey, setAgendaDateKey] = useState<string | undefined>(undefined);
+  const busyMinutesByDay = useMemo(() => getBusyMinutesByDay(busyBlocks, settings), [busyBlocks, settings]);
+
+  const selectTab = (tab: Tab) => {
+    setAgendaDateKey(undefined);
+    setActiveTab(tab);
+  };
+
+  const openDayInAgenda = (dateKey: string) => {
+    setAgendaDateKey(dateKey);
+    setActiveTab('agenda');
+  };
 
   return (
     <div className="w-full text-white">
       <div className="flex gap-2 mb-8 border-b border-white/10 pb-2 overflow-x-auto scrollbar-none">
         <button
-          onClick={() => setActiveTab('agenda')}
+          onClick={() => selectTab('agenda')}
           className={`flex items-center gap-2 px-5 py-3 text-base md:text-lg font-medium rounded-t-xl transition-all whitespace-nowrap
             ${activeTab === 'agenda' ? 'bg-white/20 text-white border-b-4 border-white' : 'text-white/50 hover:text-white hover:bg-white/5'}`}
         >
           <LayoutGrid className="w-5 h-5" /> Agenda
         </button>
         <button
-          onClick={() => setActiveTab('matrix')}
+          onClick={() => selectTab('heatmap')}
+          className={`flex items-center gap-2 px-5 py-3 text-base md:text-lg font-medium rounded-t-xl transition-all whitespace-nowrap
+            ${activeTab === 'heatmap' ? 'bg-white/20 text-white border-b-4 border-white' : 'text-white/50 hover:text-white hover:bg-white/5'}`}
+        >
+          <Flame className="w-5 h-5" /> Heatmap
+        </button>
+        <button
+          onClick={() => selectTab('matrix')}
           className={`flex items-center gap-2 px-5 py-3 text-base md:text-lg font-medium rounded-t-xl transition-all whitespace-nowrap
             ${activeTab === 'matrix' ? 'bg-white/20 text-white border-b-4 border-white' : 'text-white/50 hover:text-white hover:bg-white/5'}`}
         >
           <Grid3X3 className="w-5 h-5" /> Matrix
         </button>
         <button
-          onClick={() => setActiveTab('progress')}
+          onClick={() => selectTab('progress')}
           className={`flex items-center gap-2 px-5 py-3 text-base md:text-lg font-medium rounded-t-xl transition-all whitespace-nowrap
             ${activeTab === 'progress' ? 'bg-white/20 text-white border-b-4 border-white' : 'text-white/50 hover:text-white hover:bg-white/5'}`}
         >
           <ListTodo className="w-5 h-5" /> Progress
         </button>
         <button
-          onClick={() => setActiveTab('gantt')}
+          onClick={() => selectTab('gantt')}
           className={`flex items-center gap-2 px-5 py-3 text-base md:text-lg font-medium rounded-t-xl transition-all whitespace-nowrap
             ${activeTab === 'gantt' ? 'bg-white/20 text-white border-b-4 border-white' : 'text-white/50 hover:text-white hover:bg-white/5'}`}
         >
           <BarChart className="w-5 h-5" /> Gantt Chart
         </button>
         <button
-          onClick={() => setActiveTab('history')}
+          onClick={() => selectTab('history')}
           className={`flex items-center gap-2 px-5 py-3 text-base md:text-lg font-medium rounded-t-xl transition-all whitespace-nowrap
             ${activeTab === 'history' ? 'bg-white/20 text-white border-b-4 border-white' : 'text-white/50 hover:text-white hover:bg-white/5'}`}
         >
@@ -86,13 +115,18 @@ export const CalendarView: React.FC<CalendarViewProps> = ({
             onUpdateDayNote={onUpdateDayNote}
             dayAgendas={dayAgendas}
             onUpdateDayAgenda={onUpdateDayAgenda}
+            busyBlocks={busyBlocks}
+            onImportBusyBlocks={onImportBusyBlocks}
+            onRemoveBusySource={onRemoveBusySource}
             onActivateProject={onActivateProject}
+            initialDateKey={agendaDateKey}
           />
         )}
+        {activeTab === 'heatmap' && <FocusHeatmap history={history} settings={settings} onSelectDay={openDayInAgenda} />}
         {activeTab === 'matrix' && <EisenhowerMatrix projects={projects} activeProjectId={activeProjectId} onProjectSelect={onProjectSelect} />}
-        {activeTab === 'progress' && <GanttChart projects={projects} history={history} />}
-        {activeTab === 'gantt' && <GanttTimeline projects={projects} settings={settings} />}
-        {activeTab === 'history' && <HistoryView projects={projects} />}
+        {activeTab === 'progress' && <GanttChart projects={projects} history={history} settings={settings} />}
+        {activeTab === 'gantt' && <GanttTimeline projects={projects} history={history} settings={settings} busyMinutesByDay={busyMinutesByDay} />}
+        {activeTab === 'history' && <HistoryView projects={projects} settings={settings} />}
       </div>
     </div>
   );
@@ -0,0 +1,115 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Search, Command, Folder, CheckSquare } from 'lucide-react';
+import { fuzzyScore } from '../shortcuts';
+
+export interface PaletteItem {
+  id: string;
+  kind: 'command' | 'project' | 'subtask';
+  label: string;
+  detail?: string; // Secondary text, e.g. the subtask's project
+  hint?: string; // Right-aligned, e.g. the key binding
+  run: () => void;
+}
+
+interface CommandPaletteProps {
+  isOpen: boolean;
+  items: PaletteItem[];
+  onClose: () => void;
+}
+
+const MAX_RESULTS = 50;
+
+const KIND_ICONS: Record<PaletteItem['kind'], React.ReactNode> = {
+  command: <Command className="w-4 h-4" />,
+  project: <Folder className="w-4 h-4" />,
+  subtask: <CheckSquare className="w-4 h-4" />
+};
+
+export const CommandPalette: React.FC<CommandPaletteProps> = ({ isOpen, items, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [highlighted, setHighlighted] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setQuery('');
+      setHighlighted(0);
+    }
+  }, [isOpen]);
+
+  const results = useMemo(() => {
+    if (!query.trim()) return items.slice(0, MAX_RESULTS);
+    return items
+      .map((item, index) => ({ item, index, score: fuzzyScore(query, item.detail ? `${item.label} ${item.detail}` : item.label) }))
+      .filter((r): r is { item: PaletteItem, index: number, score: number } => r.score !== null)
+      .sort((a, b) => b.score - a.score || a.index - b.index)
+      .slice(0, MAX_RESULTS)
+      .map(r => r.item);
+  }, [items, query]);
+
+  useEffect(() => {
+    listRef.current?.children[highlighted]?.scrollIntoView({ block: 'nearest' });
+  }, [highlighted]);
+
+  if (!isOpen) return null;
+
+  const runItem = (item: PaletteItem | undefined) => {
+    if (!item) return;
+    onClose();
+    item.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlighted(i => Math.min(results.length - 1, i + 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted(i => Math.max(0, i - 1));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      runItem(results[highlighted]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+    // Keep typing from reaching the global shortcut handler
+    e.stopPropagation();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-start justify-center pt-[15vh] bg-black bg-opacity-50 backdrop-blur-sm" onMouseDown={onClose}>
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-xl m-4 overflow-hidden animate-fade-in-up" onMouseDown={e => e.stopPropagation()}>
+        <div className="flex items-center gap-3 px-4 border-b">
+          <Search className="w-5 h-5 text-gray-400" />
+          <input
+            autoFocus
+            value={query}
+            onChange={e => { setQuery(e.target.value); setHighlighted(0); }}
+            onKeyDown={handleKeyDown}
+            placeholder="Search projects, subtasks and commands..."
+            className="flex-1 py-4 outline-none text-gray-800 placeholder-gray-400"
+          />
+        </div>
+        <div ref={listRef} className="max-h-80 overflow-y-auto py-2">
+          {results.length === 0 && <div className="px-4 py-6 text-center text-sm text-gray-400">No matches</div>}
+          {results.map((item, index) => (
+            <button
+              key={item.id}
+              onClick={() => runItem(item)}
+              onMouseMove={() => setHighlighted(index)}
+              className={`w-full flex items-center gap-3 px-4 py-2 text-left text-sm ${index === highlighted ? 'bg-rose-50 text-rose-700' : 'text-gray-700'}`}
+            >
+              <span className="text-gray-400">{KIND_ICONS[item.kind]}</span>
+              <span className="flex-1 truncate">
+                {item.label}
+                {item.detail && <span className="text-gray-400"> · {item.detail}</span>}
+              </span>
+              {item.hint && <kbd className="text-[10px] font-mono bg-gray-100 border rounded px-1.5 py-0.5 text-gray-500">{item.hint}</kbd>}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
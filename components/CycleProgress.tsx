@@ -0,0 +1,37 @@
+import React from 'react';
+import { CycleStep, TimerMode } from '../types';
+
+interface CycleProgressProps {
+  cycle: CycleStep[];
+  stepIndex: number;
+  onSelectStep: (index: number) => void;
+}
+
+export const getStepLabel = (step: CycleStep): string =>
+  step.label || (step.mode === TimerMode.POMODORO ? 'Focus' : step.mode === TimerMode.SHORT_BREAK ? 'Short Break' : 'Long Break');
+
+// One marker per step: focus steps are wide pills, breaks small dots
+export const CycleProgress: React.FC<CycleProgressProps> = ({ cycle, stepIndex, onSelectStep }) => {
+  const focusSteps = cycle.filter(step => step.mode === TimerMode.POMODORO).length;
+  const focusNumber = cycle.slice(0, stepIndex + 1).filter(step => step.mode === TimerMode.POMODORO).length;
+  const current = cycle[stepIndex];
+
+  return (
+    <div className="flex flex-col items-center gap-2 mb-6">
+      <div className="flex items-center gap-1.5">
+        {cycle.map((step, index) => (
+          <button
+            key={index}
+            onClick={() => onSelectStep(index)}
+            title={`${getStepLabel(step)} · ${step.minutes} min`}
+            className={`rounded-full transition-all ${step.mode === TimerMode.POMODORO ? 'w-6 h-2.5' : 'w-2.5 h-2.5'} ${index === stepIndex ? 'bg-white shadow-[0_0_8px_rgba(255,255,255,0.6)]' : index < stepIndex ? 'bg-white/60' : 'bg-white/20 hover:bg-white/40'}`}
+          />
+        ))}
+      </div>
+      <div className="text-xs font-medium text-white/70 tracking-wide">
+        {getStepLabel(current)}
+        {current.mode === TimerMode.POMODORO && focusSteps > 1 && <span className="text-white/50"> · {focusNumber} of {focusSteps}</span>}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,146 @@
+import React, { useMemo, useState } from 'react';
+import { AppSessionLog, AppSettings } from '../types';
+import { addDaysToKey, formatDateKey, getFocusMinutesByDay, getTodayKey, parseDateKey } from '../utils';
+import { getDailySessionCounts, isDayOnTarget } from '../goals';
+
+interface FocusHeatmapProps {
+  history: AppSessionLog[];
+  settings: AppSettings;
+  onSelectDay: (dateKey: string) => void;
+}
+
+// Cell shades by share of the daily session target reached; the last one means the target was met
+const LEVELS = [
+  { min: 0, color: 'rgba(255,255,255,0.06)', label: 'No focus' },
+  { min: 0.0001, color: 'rgba(110,231,183,0.25)', label: 'Under a quarter of the target' },
+  { min: 0.25, color: 'rgba(110,231,183,0.45)', label: 'A quarter of the target' },
+  { min: 0.5, color: 'rgba(110,231,183,0.7)', label: 'Half the target' },
+  { min: 1, color: '#6ee7b7', label: 'Target met' }
+];
+
+const WEEKDAY_LABELS = ['', 'Mon', '', 'Wed', '', 'Fri', ''];
+
+const getLevel = (ratio: number) => [...LEVELS].reverse().find(level => ratio >= level.min) || LEVELS[0];
+
+const formatMinutes = (mins: number) => {
+  const h = Math.floor(mins / 60);
+  const m = Math.round(mins % 60);
+  return h > 0 ? `${h}h${m > 0 ? ` ${m}m` : ''}` : `${m}m`;
+};
+
+export const FocusHeatmap: React.FC<FocusHeatmapProps> = ({ history, settings, onSelectDay }) => {
+  const todayKey = getTodayKey(settings);
+  const focusByDay = useMemo(() => getFocusMinutesByDay(history, settings), [history, settings]);
+  const sessionsByDay = useMemo(() => getDailySessionCounts(history, settings), [history, settings]);
+  const getDayLevel = (day: string) => {
+    const sessions = sessionsByDay[day] || 0;
+    if (isDayOnTarget(sessions, settings)) return LEVELS[LEVELS.length - 1];
+    // Focus without a completed session still shows up, in the lightest shade
+    return getLevel(Math.max(sessions / settings.dailyPomodoroTarget, focusByDay[day] ? LEVELS[1].min : 0));
+  };
+
+  // One tab per year from the first logged day to this year
+  const years = useMemo(() => {
+    const firstYear = Object.keys(focusByDay).reduce((first, day) => Math.min(first, Number(day.slice(0, 4))), Number(todayKey.slice(0, 4)));
+    const list: number[] = [];
+    for (let year = Number(todayKey.slice(0, 4)); year >= firstYear; year--) list.push(year);
+    return list;
+  }, [focusByDay, todayKey]);
+  const [year, setYear] = useState(() => Number(todayKey.slice(0, 4)));
+
+  // Columns are weeks starting on Sunday, like the monthly calendar
+  const { weeks, monthLabels, summary } = useMemo(() => {
+    const firstKey = `${year}-01-01`;
+    const lastKey = `${year}-12-31`;
+    const gridStart = addDaysToKey(firstKey, -parseDateKey(firstKey).getDay());
+    const weeks: (string | null)[][] = [];
+    const monthLabels: { column: number; label: string }[] = [];
+    const summary = { minutes: 0, activeDays: 0, targetDays: 0 };
+
+    for (let weekStart = gridStart; weekStart <= lastKey; weekStart = addDaysToKey(weekStart, 7)) {
+      const week = Array.from({ length: 7 }, (_, i) => {
+        const day = addDaysToKey(weekStart, i);
+        return day >= firstKey && day <= lastKey ? day : null;
+      });
+      const firstOfMonth = week.find(day => day?.endsWith('-01'));
+      if (firstOfMonth) monthLabels.push({ column: weeks.length, label: formatDateKey(firstOfMonth, 'en-US', { month: 'short' }) });
+      weeks.push(week);
+      week.forEach(day => {
+        const mins = day ? focusByDay[day] || 0 : 0;
+        if (mins <= 0) return;
+        summary.minutes += mins;
+        summary.activeDays++;
+        if (day && isDayOnTarget(sessionsByDay[day] || 0, settings)) summary.targetDays++;
+      });
+    }
+    return { weeks, monthLabels, summary };
+  }, [year, focusByDay, sessionsByDay, settings]);
+
+  return (
+    <div className="w-full text-white">
+      <div className="flex overflow-x-auto gap-2 mb-6 pb-2 border-b border-white/10 scrollbar-thin">
+        {years.map(y => (
+          <button
+            key={y}
+            onClick={() => setYear(y)}
+            className={`px-6 py-3 text-lg font-medium rounded-t-xl transition-all whitespace-nowrap
+              ${year === y ? 'bg-white/20 text-white border-b-4 border-white' : 'text-white/50 hover:text-white hover:bg-white/5'}`}
+          >
+            {y}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-6 mb-6 text-sm text-white/60">
+        <div><span className="text-2xl font-bold text-white mr-1">{formatMinutes(summary.minutes)}</span> focused</div>
+        <div><span className="text-2xl font-bold text-white mr-1">{summary.activeDays}</span> active days</div>
+        <div><span className="text-2xl font-bold text-white mr-1">{summary.targetDays}</span> days on target</div>
+      </div>
+
+      <div className="overflow-x-auto pb-2">
+        <div className="inline-flex gap-2">
+          <div className="flex flex-col gap-[3px] pt-5 text-[10px] text-white/40 font-mono">
+            {WEEKDAY_LABELS.map((label, i) => <div key={i} className="h-3 leading-3">{label}</div>)}
+          </div>
+          <div>
+            <div className="relative h-5 text-[10px] text-white/40">
+              {monthLabels.map(({ column, label }) => (
+                <span key={column} className="absolute" style={{ left: column * 15 }}>{label}</span>
+              ))}
+            </div>
+            <div className="flex gap-[3px]">
+              {weeks.map((week, column) => (
+                <div key={column} className="flex flex-col gap-[3px]">
+                  {week.map((day, row) => {
+                    if (!day) return <div key={row} className="w-3 h-3" />;
+                    const mins = focusByDay[day] || 0;
+                    const level = getDayLevel(day);
+                    const isFuture = day > todayKey;
+                    return (
+                      <button
+                        key={row}
+                        onClick={() => onSelectDay(day)}
+                        title={`${formatDateKey(day, 'en-GB', { weekday: 'short', day: '2-digit', month: 'short', year: 'numeric' })}: ${mins > 0 ? formatMinutes(mins) : 'no focus'}, ${sessionsByDay[day] || 0}/${settings.dailyPomodoroTarget} sessions`}
+                        className={`w-3 h-3 rounded-sm transition-transform hover:scale-125 hover:ring-1 hover:ring-white ${day === todayKey ? 'ring-1 ring-white/70' : ''} ${isFuture ? 'opacity-30' : ''}`}
+                        style={{ backgroundColor: level.color }}
+                      />
+                    );
+                  })}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-4 mt-4 text-[11px] text-white/40">
+        <span>Daily target: {settings.dailyPomodoroTarget} completed sessions. Click a day to open it in the agenda.</span>
+        <div className="flex items-center gap-1">
+          Less
+          {LEVELS.map(level => <span key={level.min} className="w-3 h-3 rounded-sm" style={{ backgroundColor: level.color }} title={level.label} />)}
+          More
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,15 +1,26 @@
 import React, { useMemo } from 'react';
-import { Project, AppSessionLog } from '../types';
+import { Project, AppSessionLog, AppSettings } from '../types';
 import { Repeat } from 'lucide-react';
+import { getSubtaskCompletionToday, calculateProjectStats, getProjectFocusMinutes, getFocusSecondsBySubtask, getLogDay, getTodayKey, formatTime } from '../utils';
 
 interface GanttChartProps {
   projects: Project[];
   history: AppSessionLog[];
+  settings: AppSettings;
 }
 
-export const GanttChart: React.FC<GanttChartProps> = ({ projects, history }) => {
+export const GanttChart: React.FC<GanttChartProps> = ({ projects, history, settings }) => {
   const visibleProjects = projects; // Show all projects including daily ones
 
+  // Daily projects only show today's focus time
+  const subtaskSeconds = useMemo(() => {
+    const todayKey = getTodayKey(settings);
+    return {
+      total: getFocusSecondsBySubtask(history),
+      today: getFocusSecondsBySubtask(history, log => getLogDay(log, settings) === todayKey)
+    };
+  }, [history, settings]);
+
   if (visibleProjects.length === 0) {
     return (
       <div className="h-64 flex flex-col items-center justify-center text-white/40 border-2 border-dashed border-white/10 rounded-3xl">
@@ -30,6 +41,8 @@ export const GanttChart: React.FC<GanttChartProps> = ({ projects, history }) =>
     <div className="w-full space-y-12">
       {visibleProjects.map(project => {
         const { isDaily } = getProgress(project);
+        const stats = calculateProjectStats(project, history, settings);
+        const focusMinutes = getProjectFocusMinutes(project, settings);
         
         return (
         <div key={project.id} className="bg-white/5 rounded-3xl p-6 border border-white/10">
@@ -38,6 +51,7 @@ export const GanttChart: React.FC<GanttChartProps> = ({ projects, history }) =>
             {isDaily && <div className="bg-yellow-400 text-black text-[10px] font-bold px-2 py-0.5 rounded-full uppercase tracking-wider flex items-center gap-1"><Repeat className="w-3 h-3" /> Daily</div>}
             <span className="text-sm font-mono opacity-40 ml-auto font-normal">Created: {new Date(project.createdAt).toLocaleDateString()}</span>
           </h4>
+          <div className="text-xs font-mono opacity-50 -mt-4 mb-6">Spent {stats.timeSpent} · Remaining {stats.timeRemaining}</div>
           
           <div className="space-y-4">
             {project.subtasks.map(task => {
@@ -45,12 +59,13 @@ export const GanttChart: React.FC<GanttChartProps> = ({ projects, history }) =>
               
               // For daily tasks, calculate completion based on TODAY's history logs
               if (isDaily) {
-                   const todayStr = new Date().toLocaleDateString('en-GB', { day: '2-digit', month: 'long', year: 'numeric' });
-                   completed = history.filter(l => l.subtaskId === task.id && l.date === todayStr).length;
+                   completed = getSubtaskCompletionToday(task.id, history, settings);
               }
 
               const progress = task.targetSessions > 0 ? (completed / task.targetSessions) * 100 : 0;
               const isCompleted = progress >= 100;
+              const spentSeconds = Math.round((isDaily ? subtaskSeconds.today : subtaskSeconds.total)[task.id] || 0);
+              const remainingSeconds = Math.round(Math.max(0, task.targetSessions - completed) * focusMinutes * 60);
               
               return (
                 <div key={task.id} className="relative">
@@ -59,7 +74,7 @@ export const GanttChart: React.FC<GanttChartProps> = ({ projects, history }) =>
                       {task.name}
                     </span>
                     <span className="text-xs font-mono opacity-50">
-                      {completed} / {task.targetSessions} {isDaily ? '(Today)' : 'Sessions'}
+                      {completed} / {task.targetSessions} {isDaily ? '(Today)' : 'Sessions'} · {formatTime(spentSeconds)} spent · {formatTime(remainingSeconds)} left
                     </span>
                   </div>
                   <div className="h-6 bg-black/30 rounded-full overflow-hidden flex">
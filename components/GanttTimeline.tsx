@@ -1,11 +1,14 @@
 import React, { useMemo, useState } from 'react';
-import { Project, AppSettings } from '../types';
+import { Project, AppSessionLog, AppSettings } from '../types';
 import { ChevronRight, ChevronDown, FileSpreadsheet } from 'lucide-react';
 import XLSX from 'xlsx-js-style';
+import { calculateProjectStats, getProjectFocusMinutes, getFocusSecondsBySubtask, formatTime, getDateKey, getScheduleDays } from '../utils';
 
 interface GanttTimelineProps {
   projects: Project[];
+  history: AppSessionLog[];
   settings: AppSettings;
+  busyMinutesByDay: Record<string, number>;
 }
 
 const PROJECT_COLORS = [
@@ -15,11 +18,23 @@ const PROJECT_COLORS = [
   '#f472b6', '#fb7185'
 ];
 
-export const GanttTimeline: React.FC<GanttTimelineProps> = ({ projects, settings }) => {
+export const GanttTimeline: React.FC<GanttTimelineProps> = ({ projects, history, settings, busyMinutesByDay }) => {
   const [expandedProjectIds, setExpandedProjectIds] = useState<Set<string>>(new Set());
   const dailyTarget = settings.dailyPomodoroTarget || 6;
 
+  // Days the first `sessions` of a project take from its start, with busy time shrinking
+  // each day's capacity as on the agenda
+  const getDaysFor = (project: Project, sessions: number) =>
+    getScheduleDays(getDateKey(new Date(project.createdAt), settings), sessions, dailyTarget, busyMinutesByDay);
+
   const visibleProjects = useMemo(() => projects.filter(p => !p.isDaily), [projects]);
+  const subtaskSeconds = useMemo(() => getFocusSecondsBySubtask(history), [history]);
+
+  // Spent is logged focus time, remaining is the open sessions at the project's pomodoro length
+  const getSubtaskTimes = (project: Project, task: Project['subtasks'][number]) => ({
+    spent: formatTime(Math.round(subtaskSeconds[task.id] || 0)),
+    remaining: formatTime(Math.round(Math.max(0, task.targetSessions - task.completedSessions) * getProjectFocusMinutes(project, settings) * 60))
+  });
 
   const toggleProject = (id: string) => {
     const newSet = new Set(expandedProjectIds);
@@ -37,7 +52,7 @@ export const GanttTimeline: React.FC<GanttTimelineProps> = ({ projects, settings
 
     const endDates = visibleProjects.map(p => {
       const totalPoms = p.subtasks.reduce((sum, s) => sum + s.targetSessions, 0);
-      const durationDays = Math.ceil(totalPoms / dailyTarget);
+      const durationDays = Math.ceil(getDaysFor(p, totalPoms));
       const end = new Date(p.createdAt);
       end.setDate(end.getDate() + durationDays);
       return end.getTime();
@@ -56,7 +71,7 @@ export const GanttTimeline: React.FC<GanttTimelineProps> = ({ projects, settings
     }
 
     return { start: minStart, end: maxEnd, days };
-  }, [visibleProjects, dailyTarget]);
+  }, [visibleProjects, dailyTarget, busyMinutesByDay, settings]);
 
   const exportToStyledSpreadsheet = () => {
     const today = new Date();
@@ -88,7 +103,9 @@ export const GanttTimeline: React.FC<GanttTimelineProps> = ({ projects, settings
     const headerRow: any[] = [
       { v: "Project / Subtask", s: { font: { bold: true, color: { rgb: COLORS.WHITE } }, fill: { fgColor: { rgb: COLORS.NAVY } } } },
       { v: "Importance", s: { font: { bold: true, color: { rgb: COLORS.WHITE } }, fill: { fgColor: { rgb: COLORS.NAVY } } } },
-      { v: "Urgency", s: { font: { bold: true, color: { rgb: COLORS.WHITE } }, fill: { fgColor: { rgb: COLORS.NAVY } } } }
+      { v: "Urgency", s: { font: { bold: true, color: { rgb: COLORS.WHITE } }, fill: { fgColor: { rgb: COLORS.NAVY } } } },
+      { v: "Time Spent", s: { font: { bold: true, color: { rgb: COLORS.WHITE } }, fill: { fgColor: { rgb: COLORS.NAVY } } } },
+      { v: "Remaining", s: { font: { bold: true, color: { rgb: COLORS.WHITE } }, fill: { fgColor: { rgb: COLORS.NAVY } } } }
     ];
     
     timelineRange.days.forEach(day => {
@@ -110,13 +127,16 @@ export const GanttTimeline: React.FC<GanttTimelineProps> = ({ projects, settings
       projectStart.setHours(0, 0, 0, 0);
       const totalTarget = project.subtasks.reduce((sum, s) => sum + s.targetSessions, 0);
       const totalDone = project.subtasks.reduce((sum, s) => sum + s.completedSessions, 0);
-      const totalDurationDays = Math.ceil(totalTarget / dailyTarget);
-      const completedDays = Math.floor(totalDone / dailyTarget);
+      const totalDurationDays = Math.ceil(getDaysFor(project, totalTarget));
+      const completedDays = Math.floor(getDaysFor(project, totalDone));
+      const stats = calculateProjectStats(project, history, settings);
 
       const projectRow: any[] = [
         { v: project.name, s: { font: { bold: true, size: 12 }, fill: { fgColor: { rgb: "F8FAFC" } } } },
         { v: "-" },
-        { v: "-" }
+        { v: "-" },
+        { v: stats.timeSpent, s: { font: { bold: true } } },
+        { v: stats.timeRemaining, s: { font: { bold: true } } }
       ];
 
       timelineRange.days.forEach(day => {
@@ -147,15 +167,18 @@ export const GanttTimeline: React.FC<GanttTimelineProps> = ({ projects, settings
 
       let cumulativeTarget = 0;
       project.subtasks.forEach(task => {
+        const times = getSubtaskTimes(project, task);
         const taskRow: any[] = [
           { v: `  - ${task.name}`, s: { font: { italic: true }, border: { bottom: { style: "thin", color: { rgb: COLORS.GREY_BORDER } } } } },
           { v: task.importance === 'important' ? "Important" : "Normal", s: { font: { color: { rgb: task.importance === 'important' ? COLORS.INDIGO : "666666" } } } },
-          { v: task.urgency === 'emergent' ? "Emergent" : "Routine", s: { font: { color: { rgb: task.urgency === 'emergent' ? COLORS.ROSE : "666666" } } } }
+          { v: task.urgency === 'emergent' ? "Emergent" : "Routine", s: { font: { color: { rgb: task.urgency === 'emergent' ? COLORS.ROSE : "666666" } } } },
+          { v: times.spent },
+          { v: times.remaining }
         ];
         
-        const taskStartOffset = Math.floor(cumulativeTarget / dailyTarget);
-        const taskDurationDays = Math.ceil(task.targetSessions / dailyTarget);
-        const taskCompletedDays = Math.floor(task.completedSessions / dailyTarget);
+        const taskStartOffset = Math.floor(getDaysFor(project, cumulativeTarget));
+        const taskDurationDays = Math.ceil(getDaysFor(project, cumulativeTarget + task.targetSessions)) - taskStartOffset;
+        const taskCompletedDays = Math.floor(getDaysFor(project, cumulativeTarget + task.completedSessions)) - taskStartOffset;
 
         timelineRange.days.forEach(day => {
           const diffDays = Math.floor((day.getTime() - projectStart.getTime()) / (1000 * 60 * 60 * 24));
@@ -192,7 +215,7 @@ export const GanttTimeline: React.FC<GanttTimelineProps> = ({ projects, settings
 
     try {
       const worksheet = XLSX.utils.aoa_to_sheet(data);
-      const wscols = [{ wch: 35 }, { wch: 15 }, { wch: 15 }];
+      const wscols = [{ wch: 35 }, { wch: 15 }, { wch: 15 }, { wch: 12 }, { wch: 12 }];
       for (let i = 0; i < timelineRange.days.length; i++) wscols.push({ wch: 6 });
       worksheet['!cols'] = wscols;
 
@@ -250,11 +273,12 @@ export const GanttTimeline: React.FC<GanttTimelineProps> = ({ projects, settings
               {visibleProjects.map((project, pIdx) => {
                 const startIdx = timelineRange.days.findIndex(d => d.toDateString() === new Date(project.createdAt).toDateString());
                 const totalPoms = project.subtasks.reduce((sum, s) => sum + s.targetSessions, 0);
-                const durationDays = Math.ceil(totalPoms / dailyTarget);
+                const durationDays = Math.ceil(getDaysFor(project, totalPoms));
                 const color = PROJECT_COLORS[pIdx % PROJECT_COLORS.length];
                 const completedPoms = project.subtasks.reduce((sum, s) => sum + s.completedSessions, 0);
                 const progressWidth = totalPoms > 0 ? (completedPoms / totalPoms) * 100 : 0;
                 const isExpanded = expandedProjectIds.has(project.id);
+                const stats = calculateProjectStats(project, history, settings);
 
                 let cumulativeSessions = 0;
 
@@ -264,7 +288,7 @@ export const GanttTimeline: React.FC<GanttTimelineProps> = ({ projects, settings
                       onClick={() => toggleProject(project.id)}
                       className="flex border-b border-white/5 group hover:bg-white/5 transition-colors cursor-pointer"
                     >
-                      <div className="w-64 sticky left-0 z-20 bg-gray-900/90 backdrop-blur-md p-3 border-r border-white/10 text-sm font-bold truncate shrink-0 flex items-center gap-2 text-white">
+                      <div title={`Spent ${stats.timeSpent} · Remaining ${stats.timeRemaining}`} className="w-64 sticky left-0 z-20 bg-gray-900/90 backdrop-blur-md p-3 border-r border-white/10 text-sm font-bold truncate shrink-0 flex items-center gap-2 text-white">
                         {isExpanded ? <ChevronDown className="w-4 h-4 text-white/40" /> : <ChevronRight className="w-4 h-4 text-white/40" />}
                         <span className="truncate">{project.name}</span>
                       </div>
@@ -290,18 +314,19 @@ export const GanttTimeline: React.FC<GanttTimelineProps> = ({ projects, settings
                     </div>
 
                     {isExpanded && project.subtasks.map((task) => {
-                      const taskStartDays = cumulativeSessions / dailyTarget;
-                      const taskDurationDays = task.targetSessions / dailyTarget;
+                      const taskStartDays = getDaysFor(project, cumulativeSessions);
+                      const taskDurationDays = getDaysFor(project, cumulativeSessions + task.targetSessions) - taskStartDays;
                       const taskProgress = task.targetSessions > 0 ? (task.completedSessions / task.targetSessions) * 100 : 0;
                       
                       const leftOffset = (startIdx + taskStartDays) * dayWidth + 4;
                       const taskWidth = Math.max(8, taskDurationDays * dayWidth - 8);
                       
                       cumulativeSessions += task.targetSessions;
+                      const times = getSubtaskTimes(project, task);
 
                       return (
                         <div key={task.id} className="flex border-b border-white/5 bg-black/10 group/sub hover:bg-white/5 transition-colors">
-                          <div className="w-64 sticky left-0 z-20 bg-gray-900/90 backdrop-blur-md p-3 pl-10 border-r border-white/10 text-xs font-medium italic opacity-70 truncate shrink-0 text-white/80">
+                          <div title={`Spent ${times.spent} · Remaining ${times.remaining}`} className="w-64 sticky left-0 z-20 bg-gray-900/90 backdrop-blur-md p-3 pl-10 border-r border-white/10 text-xs font-medium italic opacity-70 truncate shrink-0 text-white/80">
                             {task.name}
                           </div>
                           <div className="flex items-center relative py-3" style={{ width: timelineRange.days.length * dayWidth }}>
@@ -332,7 +357,7 @@ export const GanttTimeline: React.FC<GanttTimelineProps> = ({ projects, settings
         <div className="p-4 bg-black/30 text-[11px] text-white/50 italic flex flex-col md:flex-row justify-between gap-2 border-t border-white/10">
           <div className="flex items-center gap-4">
             <span className="flex items-center gap-1.5"><div className="w-2 h-2 rounded-full bg-yellow-400" /> Today</span>
-            <span>Duration = Σ(Target Pomodoros) / {dailyTarget} (Daily Target)</span>
+            <span>Duration = Σ(Target Pomodoros) / {dailyTarget} (Daily Target), less busy time from imported calendars</span>
           </div>
           <div className="opacity-60">High contrast legend and labels are included in Excel export.</div>
         </div>
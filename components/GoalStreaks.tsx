@@ -0,0 +1,79 @@
+import React, { useMemo } from 'react';
+import { AppSessionLog, AppSettings, Project } from '../types';
+import { getGoalStreak, getProjectStreaks } from '../goals';
+import { getProjectColorMap, isProjectFinished } from '../utils';
+import { Flame, Trophy, Target } from 'lucide-react';
+
+interface GoalStreaksProps {
+  data: AppSessionLog[];
+  projects: Project[];
+  settings: AppSettings;
+}
+
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+export const GoalStreaks: React.FC<GoalStreaksProps> = ({ data, projects, settings }) => {
+  const streak = useMemo(() => getGoalStreak(data, settings), [data, settings]);
+  const projectStreaks = useMemo(() => getProjectStreaks(projects, data, settings), [projects, data, settings]);
+  const colors = useMemo(() => getProjectColorMap(projects), [projects]);
+  const projectNames = new Map(projects.map(p => [p.id, p]));
+  const maxLongest = Math.max(1, ...projectStreaks.map(s => s.longest));
+
+  return (
+    <div className="w-full text-white mt-12 pt-8 border-t border-white/10">
+      <div className="flex flex-wrap items-end justify-between gap-4 mb-6">
+        <h3 className="text-2xl font-bold">Daily Goal</h3>
+        <div className="text-sm text-white/60">
+          {settings.dailyPomodoroTarget} sessions a day
+          {settings.restDays.length > 0 && <> · rest days {settings.restDays.map(day => WEEKDAY_NAMES[day]).join(', ')}</>}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+        <div className="bg-black/10 rounded-2xl p-5">
+          <h3 className="text-xs font-bold uppercase tracking-wider text-white/50 mb-2 flex items-center gap-1.5"><Flame className="w-3.5 h-3.5" /> Current streak</h3>
+          <div className="text-3xl font-bold">{plural(streak.current, 'day')}</div>
+        </div>
+        <div className="bg-black/10 rounded-2xl p-5">
+          <h3 className="text-xs font-bold uppercase tracking-wider text-white/50 mb-2 flex items-center gap-1.5"><Trophy className="w-3.5 h-3.5" /> Longest streak</h3>
+          <div className="text-3xl font-bold">{plural(streak.longest, 'day')}</div>
+        </div>
+        <div className="bg-black/10 rounded-2xl p-5">
+          <h3 className="text-xs font-bold uppercase tracking-wider text-white/50 mb-2 flex items-center gap-1.5"><Target className="w-3.5 h-3.5" /> Today</h3>
+          <div className="text-3xl font-bold">{streak.todaySessions} <span className="text-base text-white/50">/ {streak.target}</span></div>
+          <div className="mt-3 h-2 bg-white/10 rounded-full overflow-hidden">
+            <div className={`h-full ${streak.isTodayMet ? 'bg-emerald-300' : 'bg-white/70'}`} style={{ width: `${Math.min(100, (streak.todaySessions / Math.max(1, streak.target)) * 100)}%` }} />
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-black/10 rounded-2xl p-5">
+        <h3 className="text-xs font-bold uppercase tracking-wider text-white/50 mb-4">Daily project streaks</h3>
+        {projectStreaks.length === 0 ? (
+          <p className="text-sm text-white/40">Daily projects with an end date show their streaks here.</p>
+        ) : (
+          <div className="space-y-2">
+            {projectStreaks.map(({ projectId, current, longest }) => {
+              const project = projectNames.get(projectId);
+              const isFinished = project ? isProjectFinished(project, settings) : false;
+              return (
+                <div key={projectId} className={`flex items-center gap-3 text-sm ${isFinished ? 'opacity-50' : ''}`}>
+                  <div className="w-40 truncate text-white/70" title={project?.name}>{project?.name}</div>
+                  <div className="flex-1 relative h-3 rounded-full overflow-hidden bg-white/5">
+                    <div className="absolute inset-y-0 left-0 opacity-30" style={{ width: `${(longest / maxLongest) * 100}%`, backgroundColor: colors[projectId] }} />
+                    <div className="absolute inset-y-0 left-0" style={{ width: `${(current / maxLongest) * 100}%`, backgroundColor: colors[projectId] }} />
+                  </div>
+                  <div className="w-36 text-right font-mono text-white/70" title="Current / longest streak">
+                    {isFinished ? 'ended' : <><Flame className="inline w-3 h-3 mr-1" />{current}</>} <span className="text-white/40">/ best {longest}</span>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
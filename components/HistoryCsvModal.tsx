@@ -0,0 +1,88 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { AppSessionLog, AppSettings, Project } from '../types';
+import { Modal } from './Modal';
+import { Button } from './Button';
+import { HistoryFilter, filterHistory, exportHistoryCsv, importHistoryCsv, CsvImportResult } from '../csv';
+import { downloadFile, getTodayKey } from '../utils';
+import { Download, Upload } from 'lucide-react';
+
+interface HistoryCsvModalProps {
+  isOpen: boolean;
+  history: AppSessionLog[];
+  projects: Project[];
+  settings: AppSettings;
+  onImport: (result: CsvImportResult) => void;
+  onClose: () => void;
+}
+
+const NO_PROJECT = '__none__';
+const ALL_PROJECTS = '';
+
+const fieldStyle = { colorScheme: 'light' } as React.CSSProperties;
+const fieldClass = "w-full !bg-white !text-gray-900 border border-gray-300 rounded px-3 py-2 focus:ring-2 focus:ring-rose-500 outline-none transition-all";
+
+export const HistoryCsvModal: React.FC<HistoryCsvModalProps> = ({ isOpen, history, projects, settings, onImport, onClose }) => {
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [projectFilter, setProjectFilter] = useState(ALL_PROJECTS);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const filter: HistoryFilter = {
+    from: from || undefined,
+    to: to || undefined,
+    projectId: projectFilter === ALL_PROJECTS ? undefined : projectFilter === NO_PROJECT ? null : projectFilter
+  };
+  const selected = useMemo(() => filterHistory(history, filter, settings), [history, settings, from, to, projectFilter]);
+
+  const handleExport = () => {
+    const range = from || to ? `${from || 'start'}_${to || getTodayKey(settings)}` : getTodayKey(settings);
+    downloadFile(exportHistoryCsv(selected, projects, settings), `studybook_history_${range}.csv`, 'text/csv;charset=utf-8');
+  };
+
+  const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (e) => onImport(importHistoryCsv(String(e.target?.result ?? ''), projects));
+    reader.readAsText(file);
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Session History CSV">
+      <div className="space-y-6 text-gray-800">
+        <div>
+          <h3 className="text-gray-400 uppercase text-xs font-bold tracking-wider mb-3">Export</h3>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm text-gray-500 mb-1">From</label>
+              <input type="date" style={fieldStyle} value={from} max={to || undefined} onChange={(e) => setFrom(e.target.value)} className={fieldClass} />
+            </div>
+            <div>
+              <label className="block text-sm text-gray-500 mb-1">To</label>
+              <input type="date" style={fieldStyle} value={to} min={from || undefined} onChange={(e) => setTo(e.target.value)} className={fieldClass} />
+            </div>
+          </div>
+          <div className="mt-4">
+            <label className="block text-sm text-gray-500 mb-1">Project</label>
+            <select style={fieldStyle} value={projectFilter} onChange={(e) => setProjectFilter(e.target.value)} className={fieldClass}>
+              <option value={ALL_PROJECTS}>All projects</option>
+              <option value={NO_PROJECT}>No project</option>
+              {projects.map(project => <option key={project.id} value={project.id}>{project.name}</option>)}
+            </select>
+          </div>
+          <div className="flex items-center justify-between mt-4">
+            <span className="text-sm text-gray-500">{selected.length} {selected.length === 1 ? 'session' : 'sessions'} selected</span>
+            <Button variant="secondary" onClick={handleExport} disabled={selected.length === 0}><Download className="w-4 h-4" /> Export CSV</Button>
+          </div>
+        </div>
+        <div className="pt-4 border-t">
+          <h3 className="text-gray-400 uppercase text-xs font-bold tracking-wider mb-3">Import</h3>
+          <p className="text-sm text-gray-600 mb-3">Adds sessions from a CSV in the export format. Projects and subtasks are matched by name; sessions already in the history are skipped.</p>
+          <Button variant="secondary" onClick={() => fileInputRef.current?.click()}><Upload className="w-4 h-4" /> Import CSV</Button>
+          <input type="file" ref={fileInputRef} onChange={handleFile} accept=".csv,text/csv" className="hidden" />
+        </div>
+      </div>
+    </Modal>
+  );
+};
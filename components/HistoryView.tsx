@@ -1,20 +1,21 @@
 import React, { useMemo } from 'react';
-import { Project } from '../types';
+import { Project, AppSettings } from '../types';
 import { CheckCircle2, Archive, CalendarOff, Layers } from 'lucide-react';
 import { isProjectFinished } from '../utils';
 
 interface HistoryViewProps {
   projects: Project[];
+  settings: AppSettings;
 }
 
-export const HistoryView: React.FC<HistoryViewProps> = ({ projects }) => {
+export const HistoryView: React.FC<HistoryViewProps> = ({ projects, settings }) => {
   const { standardFinished, dailyExpired } = useMemo(() => {
-    const finished = projects.filter(p => isProjectFinished(p));
+    const finished = projects.filter(p => isProjectFinished(p, settings));
     return {
       standardFinished: finished.filter(p => !p.isDaily),
       dailyExpired: finished.filter(p => p.isDaily)
     };
-  }, [projects]);
+  }, [projects, settings]);
 
   const ProjectCard: React.FC<{ project: Project, icon: any, colorClass: string }> = ({ project, icon: Icon, colorClass }) => (
     <div className="bg-white/5 border border-white/10 rounded-2xl p-5 flex flex-col gap-3 hover:bg-white/10 transition-colors">
@@ -0,0 +1,149 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { AppData } from '../types';
+import { Modal } from './Modal';
+import { Button } from './Button';
+import { MergeConflict, MergeSide, mergeAppData, resolveMerge, differingFields, PROJECT_MERGE_FIELDS, SUBTASK_MERGE_FIELDS } from '../merge';
+import { Replace, GitMerge, ArrowLeft, AlertTriangle } from 'lucide-react';
+
+export interface PendingImport {
+  fileName: string;
+  data: AppData;
+}
+
+interface ImportPreviewModalProps {
+  pending: PendingImport | null;
+  current: AppData;
+  onReplace: () => void;
+  onMerge: (merged: AppData) => void;
+  onCancel: () => void;
+}
+
+const formatFieldValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+};
+
+// Short, human readable description of one side of a conflict
+const describeSide = (conflict: MergeConflict, side: MergeSide): string[] => {
+  switch (conflict.kind) {
+    case 'project':
+      return differingFields(conflict.current, conflict.incoming, PROJECT_MERGE_FIELDS).map(f => `${f}: ${formatFieldValue(conflict[side][f])}`);
+    case 'subtask':
+      return differingFields(conflict.current, conflict.incoming, SUBTASK_MERGE_FIELDS).map(f => `${f}: ${formatFieldValue(conflict[side][f])}`);
+    case 'note':
+    case 'agenda':
+      return [conflict[side]];
+  }
+};
+
+export const ImportPreviewModal: React.FC<ImportPreviewModalProps> = ({ pending, current, onReplace, onMerge, onCancel }) => {
+  const [step, setStep] = useState<'choose' | 'merge'>('choose');
+  const [choices, setChoices] = useState<Record<string, MergeSide>>({});
+
+  useEffect(() => {
+    setStep('choose');
+    setChoices({});
+  }, [pending]);
+
+  const plan = useMemo(() => {
+    if (!pending || step !== 'merge') return null;
+    return mergeAppData(current, pending.data);
+  }, [pending, current, step]);
+
+  if (!pending) return null;
+
+  const setAll = (side: MergeSide) => {
+    if (!plan) return;
+    setChoices(Object.fromEntries(plan.conflicts.map(c => [c.id, side])));
+  };
+
+  const optionClass = (selected: boolean) =>
+    `flex-1 text-left p-2 rounded-lg border text-xs transition-all ${selected ? 'border-rose-500 bg-rose-50 ring-1 ring-rose-500' : 'border-gray-200 hover:bg-gray-50'}`;
+
+  return (
+    <Modal isOpen={true} onClose={onCancel} title={`Import "${pending.fileName}"`}>
+      {step === 'choose' || !plan ? (
+        <div className="space-y-4 text-gray-800">
+          <p className="text-sm text-gray-600">
+            The backup contains {pending.data.projects.length} projects and {pending.data.appHistory.length} sessions.
+            How should it be combined with your current data?
+          </p>
+          <button onClick={onReplace} className="w-full text-left p-4 border rounded-xl hover:bg-gray-50 transition-colors flex gap-3">
+            <Replace className="w-5 h-5 text-rose-500 shrink-0 mt-0.5" />
+            <div>
+              <div className="font-bold">Replace</div>
+              <div className="text-xs text-gray-500">Overwrite projects, history, notes and agendas with the backup.</div>
+            </div>
+          </button>
+          <button onClick={() => setStep('merge')} className="w-full text-left p-4 border rounded-xl hover:bg-gray-50 transition-colors flex gap-3">
+            <GitMerge className="w-5 h-5 text-teal-500 shrink-0 mt-0.5" />
+            <div>
+              <div className="font-bold">Merge</div>
+              <div className="text-xs text-gray-500">Keep current data and add what the backup has on top. Conflicts are shown before anything changes.</div>
+            </div>
+          </button>
+        </div>
+      ) : (
+        <div className="space-y-4 text-gray-800">
+          <div className="grid grid-cols-6 gap-2 text-center">
+            {[
+              ['Projects', plan.stats.projectsAdded],
+              ['Subtasks', plan.stats.subtasksAdded],
+              ['Sessions', plan.stats.sessionsAdded],
+              ['Notes', plan.stats.notesAdded],
+              ['Agenda', plan.stats.agendaSlotsAdded],
+              ['Busy', plan.stats.busyBlocksAdded]
+            ].map(([label, count]) => (
+              <div key={label} className="bg-gray-50 border rounded-lg p-2">
+                <div className="text-lg font-bold">+{count}</div>
+                <div className="text-[10px] uppercase tracking-wider text-gray-400">{label}</div>
+              </div>
+            ))}
+          </div>
+
+          {plan.conflicts.length > 0 ? (
+            <>
+              <div className="flex items-center justify-between">
+                <h3 className="flex items-center gap-2 text-xs font-bold uppercase tracking-wider text-amber-500">
+                  <AlertTriangle className="w-4 h-4" /> {plan.conflicts.length} conflicts
+                </h3>
+                <div className="flex gap-2 text-xs">
+                  <button onClick={() => setAll('current')} className="text-gray-500 hover:text-gray-800 underline">Keep all current</button>
+                  <button onClick={() => setAll('incoming')} className="text-gray-500 hover:text-gray-800 underline">Use all from backup</button>
+                </div>
+              </div>
+              <div className="max-h-80 overflow-y-auto space-y-3 pr-1">
+                {plan.conflicts.map(conflict => {
+                  const choice = choices[conflict.id] || 'current';
+                  return (
+                    <div key={conflict.id} className="border rounded-xl p-3">
+                      <div className="text-xs font-bold mb-2 truncate">{conflict.label}</div>
+                      <div className="flex gap-2">
+                        {(['current', 'incoming'] as MergeSide[]).map(side => (
+                          <button key={side} onClick={() => setChoices(prev => ({ ...prev, [conflict.id]: side }))} className={optionClass(choice === side)}>
+                            <div className="text-[10px] font-bold uppercase tracking-wider text-gray-400 mb-1">{side === 'current' ? 'Current' : 'Backup'}</div>
+                            {describeSide(conflict, side).map((line, idx) => (
+                              <div key={idx} className="line-clamp-3 break-words">{line}</div>
+                            ))}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </>
+          ) : (
+            <p className="text-sm text-gray-600">No conflicts found. Settings are kept as they are.</p>
+          )}
+
+          <div className="flex justify-between pt-4 border-t">
+            <Button variant="secondary" onClick={() => setStep('choose')}><ArrowLeft className="w-4 h-4" /> Back</Button>
+            <Button variant="danger" onClick={() => onMerge(resolveMerge(plan, choices))}>Apply Merge</Button>
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+};
@@ -0,0 +1,56 @@
+import React from 'react';
+import { ImportReport } from '../types';
+import { Modal } from './Modal';
+import { Button } from './Button';
+import { CheckCircle, Wrench, Trash2, XCircle, ArrowUpCircle } from 'lucide-react';
+
+interface ImportReportModalProps {
+  report: ImportReport | null;
+  subject?: string; // What was imported, e.g. "Sessions"
+  onClose: () => void;
+}
+
+const ReportSection: React.FC<{ title: string, items: string[], icon: any, colorClass: string }> = ({ title, items, icon: Icon, colorClass }) => {
+  if (items.length === 0) return null;
+  return (
+    <div>
+      <h3 className={`flex items-center gap-2 text-xs font-bold uppercase tracking-wider mb-2 ${colorClass}`}>
+        <Icon className="w-4 h-4" /> {title} <span className="font-normal text-gray-400">({items.length})</span>
+      </h3>
+      <ul className="max-h-40 overflow-y-auto space-y-1 text-xs text-gray-600 bg-gray-50 border rounded-lg p-3">
+        {items.map((item, idx) => <li key={idx}>{item}</li>)}
+      </ul>
+    </div>
+  );
+};
+
+export const ImportReportModal: React.FC<ImportReportModalProps> = ({ report, subject = 'Backup', onClose }) => {
+  if (!report) return null;
+
+  const isRejected = report.rejected.length > 0;
+  const isClean = !isRejected && report.fixed.length === 0 && report.dropped.length === 0;
+
+  return (
+    <Modal isOpen={true} onClose={onClose} title={isRejected ? "Import Failed" : "Import Complete"}>
+      <div className="space-y-5 text-gray-800">
+        {isRejected ? (
+          <p className="text-sm text-gray-600">Nothing was imported. Your current data is unchanged.</p>
+        ) : (
+          <p className="text-sm text-gray-600 flex items-center gap-2">
+            <CheckCircle className="w-4 h-4 text-emerald-500" />
+            {isClean ? `${subject} imported without problems.` : `${subject} imported. Some records needed attention:`}
+          </p>
+        )}
+
+        <ReportSection title="Rejected" items={report.rejected} icon={XCircle} colorClass="text-red-500" />
+        {report.fromVersion < report.toVersion && (
+          <ReportSection title={`Upgraded v${report.fromVersion} → v${report.toVersion}`} items={report.migrations} icon={ArrowUpCircle} colorClass="text-blue-500" />
+        )}
+        <ReportSection title="Fixed" items={report.fixed} icon={Wrench} colorClass="text-amber-500" />
+        <ReportSection title="Dropped" items={report.dropped} icon={Trash2} colorClass="text-rose-500" />
+
+        <div className="flex justify-end pt-4 border-t"><Button onClick={onClose}>OK</Button></div>
+      </div>
+    </Modal>
+  );
+};
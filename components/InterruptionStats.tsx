@@ -0,0 +1,121 @@
+import React, { useMemo } from 'react';
+import { AppSessionLog, AppSettings, InterruptionType, Project, TimerMode } from '../types';
+import { getDateKey, getTodayKey, addDaysToKey, formatDateKey, getHourInZone } from '../utils';
+
+interface InterruptionStatsProps {
+  data: AppSessionLog[];
+  projects: Project[];
+  settings: AppSettings;
+}
+
+type Counts = Record<InterruptionType, number>;
+
+interface Row {
+  key: string;
+  label: string;
+  counts: Counts;
+}
+
+const RECENT_DAYS = 14;
+
+const emptyCounts = (): Counts => ({ internal: 0, external: 0 });
+const total = (counts: Counts) => counts.internal + counts.external;
+
+// Horizontal bars split into internal (solid) and external (faded) interruptions
+const BarList: React.FC<{ title: string, rows: Row[] }> = ({ title, rows }) => {
+  const max = Math.max(1, ...rows.map(r => total(r.counts)));
+  return (
+    <div className="bg-black/10 rounded-2xl p-5">
+      <h3 className="text-xs font-bold uppercase tracking-wider text-white/50 mb-4">{title}</h3>
+      {rows.length === 0 ? (
+        <p className="text-sm text-white/40">Nothing recorded yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {rows.map(row => (
+            <div key={row.key} className="flex items-center gap-3 text-sm">
+              <div className="w-28 truncate text-white/70" title={row.label}>{row.label}</div>
+              <div className="flex-1 flex h-3 rounded-full overflow-hidden bg-white/5">
+                <div className="bg-white/80" style={{ width: `${(row.counts.internal / max) * 100}%` }} />
+                <div className="bg-white/35" style={{ width: `${(row.counts.external / max) * 100}%` }} />
+              </div>
+              <div className="w-8 text-right font-mono text-white/70">{total(row.counts)}</div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const InterruptionStats: React.FC<InterruptionStatsProps> = ({ data, projects, settings }) => {
+  const stats = useMemo(() => {
+    const byDay: Record<string, Counts> = {};
+    const byProject: Record<string, Counts> = {};
+    const byHour: Counts[] = Array.from({ length: 24 }, emptyCounts);
+    const overall = emptyCounts();
+    let focusSessions = 0;
+
+    data.forEach(log => {
+      if (log.mode === TimerMode.POMODORO) focusSessions++;
+      (log.interruptions || []).forEach(interruption => {
+        const at = new Date(interruption.pausedAt);
+        const day = getDateKey(at, settings);
+        const project = log.projectId || '';
+        (byDay[day] = byDay[day] || emptyCounts())[interruption.type]++;
+        (byProject[project] = byProject[project] || emptyCounts())[interruption.type]++;
+        byHour[getHourInZone(at, settings.timeZone)][interruption.type]++;
+        overall[interruption.type]++;
+      });
+    });
+
+    const todayKey = getTodayKey(settings);
+    const dayRows: Row[] = Array.from({ length: RECENT_DAYS }, (_, i) => {
+      const key = addDaysToKey(todayKey, i - RECENT_DAYS + 1);
+      return { key, label: formatDateKey(key, 'en-GB', { day: '2-digit', month: 'short', weekday: 'short' }), counts: byDay[key] || emptyCounts() };
+    });
+
+    const projectNames = new Map(projects.map(p => [p.id, p.name]));
+    const projectRows: Row[] = Object.entries(byProject)
+      .map(([id, counts]) => ({ key: id || 'none', label: id ? (projectNames.get(id) ?? 'Deleted project') : 'No project', counts }))
+      .sort((a, b) => total(b.counts) - total(a.counts));
+
+    return { dayRows, projectRows, byHour, overall, focusSessions };
+  }, [data, projects, settings]);
+
+  const maxHour = Math.max(1, ...stats.byHour.map(total));
+  const totalCount = total(stats.overall);
+
+  return (
+    <div className="w-full text-white mt-12 pt-8 border-t border-white/10">
+      <div className="flex flex-wrap items-end justify-between gap-4 mb-6">
+        <h3 className="text-2xl font-bold">Interruptions</h3>
+        <div className="flex gap-6 text-sm text-white/60">
+          <span><span className="font-bold text-white">{totalCount}</span> total</span>
+          <span><span className="font-bold text-white">{stats.focusSessions > 0 ? (totalCount / stats.focusSessions).toFixed(1) : '0'}</span> per session</span>
+          <span className="flex items-center gap-1.5"><span className="w-3 h-3 rounded-sm bg-white/80" /> Internal {stats.overall.internal}</span>
+          <span className="flex items-center gap-1.5"><span className="w-3 h-3 rounded-sm bg-white/35" /> External {stats.overall.external}</span>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+        <BarList title={`Last ${RECENT_DAYS} days`} rows={totalCount > 0 ? stats.dayRows : []} />
+        <BarList title="By project" rows={stats.projectRows} />
+      </div>
+
+      <div className="bg-black/10 rounded-2xl p-5">
+        <h3 className="text-xs font-bold uppercase tracking-wider text-white/50 mb-4">By hour of day</h3>
+        <div className="flex items-end gap-1 h-32">
+          {stats.byHour.map((counts, hour) => (
+            <div key={hour} className="flex-1 flex flex-col justify-end h-full group relative" title={`${hour.toString().padStart(2, '0')}:00 · ${counts.internal} internal, ${counts.external} external`}>
+              <div className="bg-white/35 rounded-t-sm" style={{ height: `${(counts.external / maxHour) * 100}%` }} />
+              <div className="bg-white/80" style={{ height: `${(counts.internal / maxHour) * 100}%` }} />
+            </div>
+          ))}
+        </div>
+        <div className="flex gap-1 mt-2 text-[10px] font-mono text-white/40">
+          {stats.byHour.map((_, hour) => <div key={hour} className="flex-1 text-center">{hour % 3 === 0 ? hour.toString().padStart(2, '0') : ''}</div>)}
+        </div>
+      </div>
+    </div>
+  );
+};
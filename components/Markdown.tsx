@@ -0,0 +1,19 @@
+import React, { useMemo } from 'react';
+import { marked } from 'marked';
+import DOMPurify from 'dompurify';
+
+// Renders user-written Markdown; the HTML is sanitized before it reaches the page
+export const Markdown: React.FC<{ content: string, className?: string }> = ({ content, className = "" }) => {
+  const html = useMemo(() => {
+    // Synchronous parse for marked v15
+    const rawHtml = marked.parse(content || '', { breaks: true }) as string;
+    return DOMPurify.sanitize(rawHtml);
+  }, [content]);
+
+  return (
+    <div 
+      className={`prose max-w-none ${className}`} 
+      dangerouslySetInnerHTML={{ __html: html }} 
+    />
+  );
+};
@@ -1,9 +1,11 @@
 import React, { useState, useMemo } from 'react';
-import { AppSessionLog, Project, AppSettings } from '../types';
-import { ChevronLeft, ChevronRight, X, CheckCircle, Target, FileText, Clock, Edit3, Check, Repeat, XCircle, AlertTriangle } from 'lucide-react';
-import { marked } from 'marked';
-import DOMPurify from 'dompurify';
-import { getDailyProjectCompletion, getEstimatedFinishDate, isProjectFinished, getLogDateString } from '../utils';
+import { AppSessionLog, Project, AppSettings, BusyBlock } from '../types';
+import { ChevronLeft, ChevronRight, X, CheckCircle, Target, FileText, Clock, Edit3, Check, Repeat, XCircle, AlertTriangle, CalendarClock } from 'lucide-react';
+import { Markdown } from './Markdown';
+import { CalendarExportMenu } from './CalendarExportMenu';
+import { BusyCalendarsMenu } from './BusyCalendarsMenu';
+import { IcsImportResult } from '../ics';
+import { getEstimatedFinishDate, isProjectFinished, getFocusMinutesByDay, getTodayKey, toDateKey, parseDateKey, formatDateKey, getProjectsByDay, getBusyMinutesByDay, getBusyBlocksOnDay, getDailyCapacity, getProjectColorMap } from '../utils';
 
 interface MonthlyCalendarProps {
   history: AppSessionLog[];
@@ -13,33 +15,15 @@ interface MonthlyCalendarProps {
   onUpdateDayNote: (date: string, note: string) => void;
   dayAgendas: Record<string, Record<string, string>>;
   onUpdateDayAgenda: (date: string, hour: string, text: string) => void;
+  busyBlocks: BusyBlock[];
+  onImportBusyBlocks: (result: IcsImportResult, source: string) => void;
+  onRemoveBusySource: (source: string) => void;
   onActivateProject: (id: string) => void;
+  initialDateKey?: string; // Opens on this day's detail panel instead of today's month
 }
 
-const DOT_COLORS = [
-  '#f87171', '#fb923c', '#fbbf24', '#facc15', '#a3e635', 
-  '#4ade80', '#34d399', '#2dd4bf', '#22d3ee', '#38bdf8', 
-  '#60a5fa', '#818cf8', '#a78bfa', '#c084fc', '#e879f9', 
-  '#f472b6', '#fb7185'
-];
-
 const HOURS = Array.from({ length: 16 }, (_, i) => `${(i + 8).toString().padStart(2, '0')}:00`);
 
-// Helper component for rendering Markdown securely
-const Markdown: React.FC<{ content: string, className?: string }> = ({ content, className = "" }) => {
-  const html = useMemo(() => {
-    const rawHtml = marked.parse(content || '', { breaks: true }) as string;
-    return DOMPurify.sanitize(rawHtml);
-  }, [content]);
-
-  return (
-    <div 
-      className={`prose max-w-none prose-invert ${className}`} 
-      dangerouslySetInnerHTML={{ __html: html }} 
-    />
-  );
-};
-
 interface CalendarDot {
   id: string;
   name: string;
@@ -56,25 +40,19 @@ export const MonthlyCalendar: React.FC<MonthlyCalendarProps> = ({
   onUpdateDayNote, 
   dayAgendas,
   onUpdateDayAgenda,
-  onActivateProject
+  busyBlocks,
+  onImportBusyBlocks,
+  onRemoveBusySource,
+  onActivateProject,
+  initialDateKey
 }) => {
-  const [currentDate, setCurrentDate] = useState(new Date());
-  const [selectedDay, setSelectedDay] = useState<number | null>(null);
+  const [currentDate, setCurrentDate] = useState(() => parseDateKey(initialDateKey || getTodayKey(settings)));
+  const [selectedDay, setSelectedDay] = useState<number | null>(() => (initialDateKey ? parseDateKey(initialDateKey).getDate() : null));
   const [isEditing, setIsEditing] = useState(false);
 
-  const today = useMemo(() => {
-    const d = new Date();
-    d.setHours(0,0,0,0);
-    return d;
-  }, []);
+  const todayKey = useMemo(() => getTodayKey(settings), [settings]);
 
-  const projectColorMap = useMemo(() => {
-    const map: { [id: string]: string } = {};
-    projects.forEach((p, i) => {
-      map[p.id] = DOT_COLORS[i % DOT_COLORS.length];
-    });
-    return map;
-  }, [projects]);
+  const projectColorMap = useMemo(() => getProjectColorMap(projects), [projects]);
 
   const daysInMonth = useMemo(() => {
     const year = currentDate.getFullYear();
@@ -88,102 +66,24 @@ export const MonthlyCalendar: React.FC<MonthlyCalendarProps> = ({
     return days;
   }, [currentDate]);
 
-  const historyMap = useMemo(() => {
-    const map: { [key: string]: number } = {};
-    history.forEach(log => {
-      const parts = log.duration.split(':').map(Number);
-      const mins = parts.length === 3 ? parts[0] * 60 + parts[1] : parts[0];
-      map[log.date] = (map[log.date] || 0) + mins;
-    });
-    return map;
-  }, [history]);
+  const historyMap = useMemo(() => getFocusMinutesByDay(history, settings), [history, settings]);
+
+  const busyMinutesByDay = useMemo(() => getBusyMinutesByDay(busyBlocks, settings), [busyBlocks, settings]);
 
   const projectsByDay = useMemo(() => {
+    const names = new Map(projects.map(p => [p.id, p.name]));
     const spans: { [date: string]: CalendarDot[] } = {};
-    const dailyTarget = settings.dailyPomodoroTarget || 6;
-
-    projects.forEach(p => {
-      const start = new Date(p.createdAt);
-      start.setHours(0, 0, 0, 0);
-
-      if (p.isDaily && p.recurrenceEndDate) {
-        // Daily Recurring Logic
-        const end = new Date(p.recurrenceEndDate);
-        end.setHours(0,0,0,0);
-        
-        let loopDate = new Date(start);
-        while (loopDate <= end) {
-          const dateKey = loopDate.toDateString();
-          if (!spans[dateKey]) spans[dateKey] = [];
-          
-          // Determine status for past/today
-          let status: 'success' | 'failed' | 'pending' = 'pending';
-          // Check if this date is in the past or today
-          if (loopDate <= today) {
-             const dateStr = getLogDateString(loopDate);
-             const done = getDailyProjectCompletion(p.id, dateStr, history);
-             const target = p.subtasks.reduce((sum, t) => sum + t.targetSessions, 0);
-             if (done >= target) status = 'success';
-             else if (loopDate.getTime() < today.getTime()) status = 'failed';
-          }
-
-          spans[dateKey].push({ 
-            id: p.id, 
-            name: p.name, 
-            color: projectColorMap[p.id],
-            isDaily: true,
-            status
-          });
-          loopDate.setDate(loopDate.getDate() + 1);
-        }
-
-      } else {
-        // Standard Estimate Logic
-        let totalPoms = p.subtasks.reduce((sum, s) => sum + s.targetSessions, 0);
-        if (totalPoms <= 0) totalPoms = 1;
-        const durationDays = Math.ceil(totalPoms / dailyTarget);
-        
-        if (p.category === 'work') {
-           // Work project logic: Only map to weekdays
-           let added = 0;
-           let current = new Date(start);
-           
-           // If created on a weekend, start mapping from Monday
-           // (Simple approach: just iterate days and skip weekends until we fill durationDays)
-           while (added < durationDays) {
-              const day = current.getDay();
-              if (day !== 0 && day !== 6) { // Skip Sunday (0) and Saturday (6)
-                 const dateKey = current.toDateString();
-                 if (!spans[dateKey]) spans[dateKey] = [];
-                 spans[dateKey].push({ 
-                    id: p.id, 
-                    name: p.name, 
-                    color: projectColorMap[p.id],
-                    isDaily: false 
-                 });
-                 added++;
-              }
-              current.setDate(current.getDate() + 1);
-           }
-        } else {
-           // Personal project logic: Map to every day
-           for (let i = 0; i < durationDays; i++) {
-              const d = new Date(start);
-              d.setDate(start.getDate() + i);
-              const dateKey = d.toDateString();
-              if (!spans[dateKey]) spans[dateKey] = [];
-              spans[dateKey].push({ 
-                id: p.id, 
-                name: p.name, 
-                color: projectColorMap[p.id],
-                isDaily: false 
-              });
-           }
-        }
-      }
+    Object.entries(getProjectsByDay(projects, history, settings, todayKey, busyMinutesByDay)).forEach(([dateKey, days]) => {
+      spans[dateKey] = days.map(day => ({
+        id: day.projectId,
+        name: names.get(day.projectId) || '',
+        color: projectColorMap[day.projectId],
+        isDaily: day.isDaily,
+        status: day.status
+      }));
     });
     return spans;
-  }, [projects, settings.dailyPomodoroTarget, projectColorMap, history, today]);
+  }, [projects, settings, projectColorMap, history, todayKey, busyMinutesByDay]);
 
   const changeMonth = (offset: number) => {
     setSelectedDay(null);
@@ -194,7 +94,7 @@ export const MonthlyCalendar: React.FC<MonthlyCalendarProps> = ({
 
   const selectedDayKey = useMemo(() => {
     if (selectedDay === null) return null;
-    return new Date(currentDate.getFullYear(), currentDate.getMonth(), selectedDay).toDateString();
+    return toDateKey(currentDate.getFullYear(), currentDate.getMonth(), selectedDay);
   }, [selectedDay, currentDate]);
 
   const agendaForSelectedDay = useMemo(() => {
@@ -206,6 +106,14 @@ export const MonthlyCalendar: React.FC<MonthlyCalendarProps> = ({
     return Object.values(agendaForSelectedDay).some((v) => (v as string).trim() !== '');
   }, [agendaForSelectedDay]);
 
+  const busyOnSelectedDay = useMemo(() => {
+    if (!selectedDayKey) return [];
+    return getBusyBlocksOnDay(busyBlocks, selectedDayKey, settings);
+  }, [selectedDayKey, busyBlocks, settings]);
+
+  const formatBusyTime = (iso: string) =>
+    new Date(iso).toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit', timeZone: settings.timeZone });
+
   const projectsOnSelectedDay = useMemo(() => {
     if (!selectedDayKey) return [];
     return projectsByDay[selectedDayKey] || [];
@@ -221,6 +129,8 @@ export const MonthlyCalendar: React.FC<MonthlyCalendarProps> = ({
       <div className="flex items-center justify-between mb-8">
         <h3 className="text-2xl font-bold">{monthName}</h3>
         <div className="flex gap-2">
+          <BusyCalendarsMenu busyBlocks={busyBlocks} settings={settings} onImport={onImportBusyBlocks} onRemoveSource={onRemoveBusySource} />
+          <CalendarExportMenu projects={projects} history={history} dayAgendas={dayAgendas} busyBlocks={busyBlocks} settings={settings} />
           <button onClick={() => changeMonth(-1)} className="p-2 bg-white/10 rounded-lg hover:bg-white/20 transition-colors"><ChevronLeft /></button>
           <button onClick={() => changeMonth(1)} className="p-2 bg-white/10 rounded-lg hover:bg-white/20 transition-colors"><ChevronRight /></button>
         </div>
@@ -236,17 +146,16 @@ export const MonthlyCalendar: React.FC<MonthlyCalendarProps> = ({
         {daysInMonth.map((day, idx) => {
           if (!day) return <div key={`empty-${idx}`} className="h-28" />;
           
-          const dateObj = new Date(currentDate.getFullYear(), currentDate.getMonth(), day);
-          const dateKey = dateObj.toDateString();
-          const isToday = today.toDateString() === dateKey;
+          const dateKey = toDateKey(currentDate.getFullYear(), currentDate.getMonth(), day);
+          const isToday = todayKey === dateKey;
           
-          const dateStringHistory = getLogDateString(dateObj);
-          const focusMins = historyMap[dateStringHistory] || 0;
+          const focusMins = historyMap[dateKey] || 0;
           const dots = projectsByDay[dateKey] || [];
           
           const hasAgenda = dayAgendas[dateKey] && Object.values(dayAgendas[dateKey]).some((v) => (v as string).trim() !== '');
           const hasNote = !!dayNotes[dateKey]?.trim();
           const showsIcon = hasAgenda || hasNote;
+          const busyMins = busyMinutesByDay[dateKey] || 0;
 
           return (
             <div 
@@ -259,6 +168,7 @@ export const MonthlyCalendar: React.FC<MonthlyCalendarProps> = ({
               <div className="flex justify-between items-start">
                  <span className={`text-lg font-bold ${isToday ? 'text-white' : 'opacity-40'}`}>{day}</span>
                  <div className="flex gap-1">
+                    {busyMins > 0 && <span title={`${Math.floor(busyMins/60)}h${Math.round(busyMins%60)}m busy`}><CalendarClock className="w-3 h-3 text-amber-200 opacity-60" /></span>}
                     {showsIcon && <FileText className="w-3 h-3 text-blue-300 opacity-60" />}
                     {isToday && <span className="text-[10px] bg-white text-rose-500 font-bold px-1.5 rounded-full uppercase tracking-tighter">Today</span>}
                  </div>
@@ -306,7 +216,7 @@ export const MonthlyCalendar: React.FC<MonthlyCalendarProps> = ({
                  <div>
                     <h4 className="text-2xl font-bold flex items-center gap-3">
                        <Target className="w-6 h-6 text-yellow-400" /> 
-                       {getLogDateString(new Date(currentDate.getFullYear(), currentDate.getMonth(), selectedDay))}
+                       {formatDateKey(selectedDayKey)}
                     </h4>
                     <p className="text-[10px] uppercase tracking-[0.2em] text-white/40 font-bold mt-1">Daily Summary & Agenda</p>
                  </div>
@@ -328,6 +238,21 @@ export const MonthlyCalendar: React.FC<MonthlyCalendarProps> = ({
                     <div className="flex items-center gap-2 text-[10px] uppercase tracking-[0.2em] text-white/40 font-bold mb-4">
                       <Clock className="w-3.5 h-3.5" /> Hourly List
                     </div>
+
+                    {/* Busy blocks from imported calendars are read-only */}
+                    {busyOnSelectedDay.length > 0 && (
+                       <div className="space-y-2 mb-4">
+                          {busyOnSelectedDay.map(block => (
+                            <div key={`${block.source}|${block.id}`} className="flex items-start gap-3 bg-amber-200/10 border border-amber-200/20 rounded-xl px-3 py-2" title={`From ${block.source}`}>
+                               <span className="text-[10px] font-mono text-amber-100/60 w-20 shrink-0 mt-0.5">
+                                 {block.allDay ? 'All day' : `${formatBusyTime(block.start)}–${formatBusyTime(block.end)}`}
+                               </span>
+                               <div className="flex-1 text-sm text-amber-50/80 truncate">{block.title || 'Busy'}</div>
+                               <CalendarClock className="w-3.5 h-3.5 text-amber-200/50 shrink-0 mt-0.5" />
+                            </div>
+                          ))}
+                       </div>
+                    )}
                     
                     {isEditing ? (
                        <div className="max-h-60 overflow-y-auto pr-3 space-y-2 scrollbar-thin scrollbar-thumb-white/10">
@@ -357,7 +282,7 @@ export const MonthlyCalendar: React.FC<MonthlyCalendarProps> = ({
                                    </div>
                                 ))}
                              </div>
-                          ) : (
+                          ) : busyOnSelectedDay.length === 0 && (
                              <div className="text-xs italic text-white/20 py-2">No agenda items for this day.</div>
                           )}
                        </div>
@@ -381,7 +306,7 @@ export const MonthlyCalendar: React.FC<MonthlyCalendarProps> = ({
                     ) : (
                       <div className="w-full">
                         {dayNotes[selectedDayKey]?.trim() ? (
-                          <Markdown content={dayNotes[selectedDayKey]} className="text-sm opacity-60 leading-relaxed" />
+                          <Markdown content={dayNotes[selectedDayKey]} className="text-sm opacity-60 leading-relaxed prose-invert" />
                         ) : (
                           <div className="text-xs italic text-white/20">No description provided.</div>
                         )}
@@ -396,8 +321,8 @@ export const MonthlyCalendar: React.FC<MonthlyCalendarProps> = ({
                        <div className="grid grid-cols-1 gap-2">
                          {projectsOnSelectedDay.map(p => {
                            const fullProject = projects.find(proj => proj.id === p.id);
-                           const isLate = fullProject && !fullProject.isDaily && !isProjectFinished(fullProject) 
-                                ? (getEstimatedFinishDate(fullProject, settings.dailyPomodoroTarget) || new Date()) < new Date()
+                           const isLate = fullProject && !fullProject.isDaily && !isProjectFinished(fullProject, settings) 
+                                ? (getEstimatedFinishDate(fullProject, settings.dailyPomodoroTarget, settings, busyMinutesByDay) || new Date()) < new Date()
                                 : false;
 
                            return (
@@ -425,7 +350,11 @@ export const MonthlyCalendar: React.FC<MonthlyCalendarProps> = ({
 
               <div className="mt-8 pt-5 border-t border-white/5 text-[10px] text-white/20 flex justify-between items-center italic">
                  <span>{isEditing ? "Editing mode (auto-saves)" : "Rendered view"}</span>
-                 <span>Target: {settings.dailyPomodoroTarget} Sessions</span>
+                 <span>
+                   {busyMinutesByDay[selectedDayKey]
+                     ? `Capacity: ${getDailyCapacity(settings.dailyPomodoroTarget, busyMinutesByDay[selectedDayKey])} of ${settings.dailyPomodoroTarget} Sessions`
+                     : `Target: ${settings.dailyPomodoroTarget} Sessions`}
+                 </span>
               </div>
            </div>
         </div>
@@ -1,86 +1,325 @@
 import React, { useMemo, useState, useEffect } from 'react';
-import { AppSessionLog } from '../types';
+import { AppSessionLog, AppSettings, Project, TimerMode } from '../types';
+import { addDaysToKey, countsAsCompletedSession, formatDateKey, getLogDay, getLogDurationSeconds, getProjectColorMap, getTodayKey, getWeekStartKey, parseDateKey, toDateKey, PROJECT_COLORS } from '../utils';
+import { getCycle, getFocusMinutes } from '../timerEngine';
+import { ArrowLeft } from 'lucide-react';
 
 interface PerformanceGraphProps {
   data: AppSessionLog[];
+  projects: Project[];
+  settings: AppSettings;
   isMainView?: boolean;
 }
 
-interface ChartItem {
-  dateLabel: string;
-  dayLabel: string;
-  dateObj: Date;
-  minutes: number;
+type GroupBy = 'total' | 'project' | 'category';
+type Metric = 'minutes' | 'sessions';
+type Period = 'day' | 'week' | 'month' | 'year';
+type RangePreset = 'month' | 'last30' | 'last6Months' | 'thisYear' | 'all' | 'custom';
+
+// One stacked segment type: a project, a category or (when drilled down) a subtask
+interface Series {
+  key: string;
+  label: string;
+  color: string;
+  projectId?: string; // Set for existing projects, which can be drilled into
 }
 
-interface GroupedData {
-  [monthKey: string]: ChartItem[];
+// One bar: a day, ISO week, month or year, clipped to the selected range
+interface ChartItem {
+  key: string;
+  dateLabel: string; // Tooltip
+  dayLabel: string; // Axis
+  days: number; // Days of the bucket inside the range, for the target line
+  total: number;
+  values: Record<string, number>; // Series key -> amount
 }
 
-export const PerformanceGraph: React.FC<PerformanceGraphProps> = ({ data, isMainView = false }) => {
-  const [activeTab, setActiveTab] = useState<string | null>(null);
+const TOTAL_KEY = 'total';
+const DELETED_KEY = '__deleted__';
+const NONE_KEY = '__none__';
 
-  const { groupedData, monthKeys, maxY, allTicks } = useMemo(() => {
-    if (!data || data.length === 0) {
-      return { groupedData: {}, monthKeys: [], maxY: 0, allTicks: [] };
-    }
+const TOTAL_SERIES: Series = { key: TOTAL_KEY, label: 'Focus', color: 'rgba(255,255,255,0.8)' };
+const CATEGORY_SERIES: Series[] = [
+  { key: 'work', label: 'Work', color: '#93c5fd' },
+  { key: 'personal', label: 'Personal', color: '#d8b4fe' }
+];
+const DELETED_COLOR = '#6b7280';
+const NONE_COLOR = 'rgba(255,255,255,0.35)';
 
-    const parseDurationToMinutes = (dur: string): number => {
-      const parts = dur.split(':').map(Number);
-      if (parts.length === 3) return parts[0] * 60 + parts[1] + parts[2] / 60;
-      if (parts.length === 2) return parts[0] + parts[1] / 60;
-      return 0;
-    };
+const GROUP_OPTIONS: { value: GroupBy; label: string }[] = [
+  { value: 'total', label: 'Total' },
+  { value: 'project', label: 'Project' },
+  { value: 'category', label: 'Category' }
+];
+const METRIC_OPTIONS: { value: Metric; label: string }[] = [
+  { value: 'minutes', label: 'Minutes' },
+  { value: 'sessions', label: 'Sessions' }
+];
+const PERIOD_OPTIONS: { value: Period; label: string }[] = [
+  { value: 'day', label: 'Day' },
+  { value: 'week', label: 'Week' },
+  { value: 'month', label: 'Month' },
+  { value: 'year', label: 'Year' }
+];
+const PRESET_OPTIONS: { value: RangePreset; label: string }[] = [
+  { value: 'last30', label: 'Last 30 days' },
+  { value: 'last6Months', label: 'Last 6 months' },
+  { value: 'thisYear', label: 'This year' },
+  { value: 'all', label: 'All time' }
+];
+
+// Bars the moving average spans, per period
+const AVERAGE_WINDOW: Record<Period, number> = { day: 7, week: 4, month: 3, year: 3 };
+const PERIOD_NOUN: Record<Period, string> = { day: 'Daily', week: 'Weekly', month: 'Monthly', year: 'Yearly' };
+// Labels get thinned out beyond this many bars
+const MAX_AXIS_LABELS = 31;
+
+const TICK_STEPS: Record<Metric, number[]> = {
+  minutes: [10, 15, 30, 60, 120, 180, 300, 600, 1200, 3000, 6000, 12000, 30000],
+  sessions: [1, 2, 5, 10, 20, 50, 100, 200, 500, 1000, 2000]
+};
+const MAX_TICKS = 8;
+
+const getPeriodKey = (dateKey: string, period: Period): string => {
+  if (period === 'week') return getWeekStartKey(dateKey);
+  if (period === 'month') return dateKey.slice(0, 7);
+  if (period === 'year') return dateKey.slice(0, 4);
+  return dateKey;
+};
 
-    const parseDate = (dateStr: string): Date => {
-      const date = new Date(dateStr);
-      return isNaN(date.getTime()) ? new Date(0) : date;
+// ISO 8601 week number: weeks start on Monday and week 1 holds the year's first Thursday
+const getIsoWeek = (weekStartKey: string): number => {
+  const thursday = parseDateKey(addDaysToKey(weekStartKey, 3));
+  const firstThursday = parseDateKey(addDaysToKey(getWeekStartKey(`${thursday.getFullYear()}-01-04`), 3));
+  return Math.round((thursday.getTime() - firstThursday.getTime()) / (7 * 86400000)) + 1;
+};
+
+const getPeriodLabels = (periodKey: string, period: Period): { dateLabel: string; dayLabel: string } => {
+  if (period === 'week') {
+    return {
+      dateLabel: `Week ${getIsoWeek(periodKey)}, from ${formatDateKey(periodKey, 'en-GB', { day: '2-digit', month: 'short', year: 'numeric' })}`,
+      dayLabel: `W${getIsoWeek(periodKey)}`
+    };
+  }
+  if (period === 'month') {
+    const date = parseDateKey(`${periodKey}-01`);
+    return {
+      dateLabel: date.toLocaleDateString('en-US', { month: 'long', year: 'numeric' }),
+      dayLabel: date.toLocaleDateString('en-US', { month: 'short', year: '2-digit' })
     };
+  }
+  if (period === 'year') return { dateLabel: periodKey, dayLabel: periodKey };
+  const date = parseDateKey(periodKey);
+  return {
+    dateLabel: date.toLocaleDateString('en-GB', { day: '2-digit', month: 'short', year: 'numeric' }),
+    dayLabel: `${date.getDate().toString().padStart(2, '0')}/${date.toLocaleDateString('en-US', { weekday: 'short' })}`
+  };
+};
+
+const getPresetRange = (preset: RangePreset, todayKey: string, firstLogKey: string): { from: string; to: string } => {
+  const [year, month] = todayKey.split('-');
+  if (preset === 'last30') return { from: addDaysToKey(todayKey, -29), to: todayKey };
+  if (preset === 'last6Months') {
+    const start = new Date(Number(year), Number(month) - 1 - 5, 1);
+    return { from: toDateKey(start.getFullYear(), start.getMonth(), 1), to: todayKey };
+  }
+  if (preset === 'thisYear') return { from: `${year}-01-01`, to: todayKey };
+  if (preset === 'all') return { from: firstLogKey < todayKey ? firstLogKey : todayKey, to: todayKey };
+  return getMonthRange(`${year}-${month}`, todayKey);
+};
+
+// A calendar month (YYYY-MM), up to today for the current one
+const getMonthRange = (monthKey: string, todayKey: string): { from: string; to: string } => {
+  const [year, month] = monthKey.split('-').map(Number);
+  const lastKey = toDateKey(year, month - 1, new Date(year, month, 0).getDate());
+  return { from: `${monthKey}-01`, to: lastKey < todayKey ? lastKey : todayKey };
+};
 
-    const dailyAggregates: { [key: string]: { minutes: number, dateObj: Date } } = {};
-    data.forEach(log => {
-      const mins = parseDurationToMinutes(log.duration);
-      if (dailyAggregates[log.date]) dailyAggregates[log.date].minutes += mins;
-      else dailyAggregates[log.date] = { minutes: mins, dateObj: parseDate(log.date) };
+const SegmentedControl = <T extends string>({ options, value, onChange }: { options: { value: T; label: string }[]; value: T; onChange: (value: T) => void }) => (
+  <div className="flex bg-white/10 rounded-xl p-1">
+    {options.map(option => (
+      <button
+        key={option.value}
+        onClick={() => onChange(option.value)}
+        className={`px-3 py-1.5 text-sm rounded-lg transition-all ${value === option.value ? 'bg-white/30 text-white font-medium' : 'text-white/50 hover:text-white'}`}
+      >
+        {option.label}
+      </button>
+    ))}
+  </div>
+);
+
+const Toggle: React.FC<{ label: string; checked: boolean; onChange: (checked: boolean) => void; swatch: React.ReactNode }> = ({ label, checked, onChange, swatch }) => (
+  <label className="flex items-center gap-2 text-sm text-white/70 cursor-pointer select-none">
+    <input type="checkbox" checked={checked} onChange={(e) => onChange(e.target.checked)} />
+    {swatch} {label}
+  </label>
+);
+
+export const PerformanceGraph: React.FC<PerformanceGraphProps> = ({ data, projects, settings, isMainView = false }) => {
+  const [groupBy, setGroupBy] = useState<GroupBy>('total');
+  const [metric, setMetric] = useState<Metric>('minutes');
+  const [drillProjectId, setDrillProjectId] = useState<string | null>(null);
+  const [period, setPeriod] = useState<Period>('day');
+  const [preset, setPreset] = useState<RangePreset>('month');
+  const [monthKey, setMonthKey] = useState<string | null>(null);
+  const [customRange, setCustomRange] = useState<{ from: string; to: string } | null>(null);
+  const [showAverage, setShowAverage] = useState(true);
+  const [showTarget, setShowTarget] = useState(true);
+  const [showPrevious, setShowPrevious] = useState(false);
+
+  const projectsById = useMemo(() => new Map(projects.map(p => [p.id, p])), [projects]);
+  const drillProject = drillProjectId ? projectsById.get(drillProjectId) : undefined;
+  const todayKey = getTodayKey(settings);
+
+  const focusLogs = useMemo(() => data.filter(log => log.mode === TimerMode.POMODORO), [data]);
+  const firstLogKey = useMemo(
+    () => focusLogs.reduce((first, log) => { const day = getLogDay(log, settings); return day < first ? day : first; }, todayKey),
+    [focusLogs, settings, todayKey]
+  );
+  // One tab per month with focus sessions, oldest first, always including this month
+  const monthKeys = useMemo(() => {
+    const keys = new Set(focusLogs.map(log => getLogDay(log, settings).slice(0, 7)));
+    keys.add(todayKey.slice(0, 7));
+    return [...keys].sort();
+  }, [focusLogs, settings, todayKey]);
+  const activeMonthKey = monthKey && monthKeys.includes(monthKey) ? monthKey : todayKey.slice(0, 7);
+
+  const range = preset === 'custom' && customRange
+    ? customRange
+    : preset === 'month' ? getMonthRange(activeMonthKey, todayKey) : getPresetRange(preset, todayKey, firstLogKey);
+  // The previous period has the same length and ends the day before the range starts; for a
+  // month it is the same days of the month before
+  const rangeDays = Math.round((parseDateKey(range.to).getTime() - parseDateKey(range.from).getTime()) / 86400000) + 1;
+  const previousMonthStart = preset === 'month' ? `${addDaysToKey(range.from, -1).slice(0, 7)}-01` : null;
+  const previousRange = previousMonthStart
+    ? { from: previousMonthStart, to: [addDaysToKey(previousMonthStart, rangeDays - 1), addDaysToKey(range.from, -1)].sort()[0] }
+    : { from: addDaysToKey(range.from, -rangeDays), to: addDaysToKey(range.from, -1) };
+
+  // Every series a log can fall into under the current grouping, and how to pick it
+  const { seriesList, getSeriesKey } = useMemo<{ seriesList: Series[]; getSeriesKey: (log: AppSessionLog) => string }>(() => {
+    if (drillProject) {
+      const subtaskIds = new Set(drillProject.subtasks.map(t => t.id));
+      return {
+        seriesList: [
+          ...drillProject.subtasks.map((task, i) => ({ key: task.id, label: task.name, color: PROJECT_COLORS[i % PROJECT_COLORS.length] })),
+          { key: DELETED_KEY, label: 'Deleted subtask', color: DELETED_COLOR },
+          { key: NONE_KEY, label: 'No subtask', color: NONE_COLOR }
+        ],
+        getSeriesKey: (log: AppSessionLog) => !log.subtaskId ? NONE_KEY : subtaskIds.has(log.subtaskId) ? log.subtaskId : DELETED_KEY
+      };
+    }
+    const deleted: Series = { key: DELETED_KEY, label: 'Deleted project', color: DELETED_COLOR };
+    const none: Series = { key: NONE_KEY, label: 'No project', color: NONE_COLOR };
+    // Logs whose project was deleted stay visible as their own group
+    const projectKey = (log: AppSessionLog) => !log.projectId ? NONE_KEY : projectsById.has(log.projectId) ? log.projectId : DELETED_KEY;
+    if (groupBy === 'project') {
+      const colors = getProjectColorMap(projects);
+      return {
+        seriesList: [...projects.map(p => ({ key: p.id, label: p.name, color: colors[p.id], projectId: p.id })), deleted, none],
+        getSeriesKey: projectKey
+      };
+    }
+    if (groupBy === 'category') {
+      return {
+        seriesList: [...CATEGORY_SERIES, deleted, none],
+        getSeriesKey: (log: AppSessionLog) => {
+          const key = projectKey(log);
+          return key === NONE_KEY || key === DELETED_KEY ? key : projectsById.get(key)!.category || 'personal';
+        }
+      };
+    }
+    return { seriesList: [TOTAL_SERIES], getSeriesKey: () => TOTAL_KEY };
+  }, [groupBy, drillProject, projects, projectsById]);
+
+  // Bars for a range, including empty ones so gaps in the trend stay visible
+  const buildItems = (from: string, to: string): ChartItem[] => {
+    const items: ChartItem[] = [];
+    const byKey = new Map<string, ChartItem>();
+    for (let day = from; day <= to; day = addDaysToKey(day, 1)) {
+      const key = getPeriodKey(day, period);
+      const existing = byKey.get(key);
+      if (existing) {
+        existing.days++;
+        continue;
+      }
+      const item: ChartItem = { key, ...getPeriodLabels(key, period), days: 1, total: 0, values: {} };
+      byKey.set(key, item);
+      items.push(item);
+    }
+    focusLogs.forEach(log => {
+      if (drillProjectId && log.projectId !== drillProjectId) return;
+      const day = getLogDay(log, settings);
+      if (day < from || day > to) return;
+      const item = byKey.get(getPeriodKey(day, period))!;
+      const amount = metric === 'minutes' ? getLogDurationSeconds(log) / 60 : countsAsCompletedSession(log) ? 1 : 0;
+      const key = getSeriesKey(log);
+      item.total += amount;
+      item.values[key] = (item.values[key] || 0) + amount;
     });
+    return items;
+  };
+
+  const chartData = useMemo(
+    () => buildItems(range.from, range.to),
+    [focusLogs, settings, metric, period, range.from, range.to, drillProjectId, getSeriesKey]
+  );
+  const previousData = useMemo(
+    () => buildItems(previousRange.from, previousRange.to),
+    [focusLogs, settings, metric, period, previousRange.from, previousRange.to, drillProjectId, getSeriesKey]
+  );
 
-    const groups: GroupedData = {};
-    let globalMaxMinutes = 10;
-
-    Object.values(dailyAggregates).forEach(item => {
-      if (isNaN(item.dateObj.getTime())) return;
-      const monthKey = item.dateObj.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
-      const dayNum = item.dateObj.getDate().toString().padStart(2, '0');
-      const weekDay = item.dateObj.toLocaleDateString('en-US', { weekday: 'short' });
-      const dayLabel = `${dayNum}/${weekDay}`;
-      if (!groups[monthKey]) groups[monthKey] = [];
-      groups[monthKey].push({
-        dateLabel: item.dateObj.toLocaleDateString('en-GB', { day: '2-digit', month: 'short' }),
-        dayLabel: dayLabel,
-        dateObj: item.dateObj,
-        minutes: item.minutes
-      });
-      if (item.minutes > globalMaxMinutes) globalMaxMinutes = item.minutes;
+  // Trailing average over the last few bars; the first bars borrow from the previous period
+  const averages = useMemo(() => {
+    const window = AVERAGE_WINDOW[period];
+    const series = [...previousData, ...chartData].map(item => item.total);
+    return chartData.map((_, i) => {
+      const end = previousData.length + i + 1;
+      const slice = series.slice(Math.max(0, end - window), end);
+      return slice.reduce((sum, value) => sum + value, 0) / slice.length;
     });
+  }, [chartData, previousData, period]);
 
-    Object.keys(groups).forEach(key => groups[key].sort((a, b) => a.dateObj.getTime() - b.dateObj.getTime()));
-    const sortedMonthKeys = Object.keys(groups).sort((a, b) => new Date(a).getTime() - new Date(b).getTime());
-    
-    let step = globalMaxMinutes <= 60 ? 10 : (globalMaxMinutes <= 300 ? 60 : 120);
-    const top = Math.ceil(globalMaxMinutes / step) * step;
+  // The daily target scales with the days each bar covers
+  const targets = useMemo(() => {
+    const dailyTarget = metric === 'minutes'
+      ? settings.dailyPomodoroTarget * getFocusMinutes(getCycle(settings))
+      : settings.dailyPomodoroTarget;
+    return chartData.map(item => dailyTarget * item.days);
+  }, [chartData, settings, metric]);
+
+  const { maxY, allTicks } = useMemo(() => {
+    const candidates = [
+      ...chartData.map(item => item.total),
+      ...(showPrevious ? previousData.map(item => item.total) : []),
+      ...(showTarget ? targets : []),
+      ...(showAverage ? averages : [])
+    ];
+    const globalMax = Math.max(metric === 'minutes' ? 10 : 1, ...candidates);
+    const steps = TICK_STEPS[metric];
+    const step = steps.find(s => globalMax / s <= MAX_TICKS) ?? steps[steps.length - 1];
+    const top = Math.ceil(globalMax / step) * step;
     const ticks = [];
     for (let i = 0; i <= top; i += step) ticks.push(i);
+    return { maxY: top, allTicks: ticks };
+  }, [chartData, previousData, targets, averages, showPrevious, showTarget, showAverage, metric]);
 
-    return { groupedData: groups, monthKeys: sortedMonthKeys, maxY: top, allTicks: ticks };
-  }, [data]);
-
+  // A project deleted while drilled into has no subtasks left to show
   useEffect(() => {
-    if (monthKeys.length > 0 && (!activeTab || !monthKeys.includes(activeTab))) {
-      setActiveTab(monthKeys[monthKeys.length - 1]);
-    }
-  }, [monthKeys, activeTab]);
+    if (drillProjectId && !drillProject) setDrillProjectId(null);
+  }, [drillProjectId, drillProject]);
+
+  // Legend: the series that appear in the range, largest first
+  const legend = useMemo(() => {
+    const totals: Record<string, number> = {};
+    chartData.forEach(item => Object.entries(item.values).forEach(([key, value]) => { totals[key] = (totals[key] || 0) + value; }));
+    return seriesList
+      .filter(series => totals[series.key] > 0)
+      .map(series => ({ ...series, total: totals[series.key] }))
+      .sort((a, b) => b.total - a.total);
+  }, [chartData, seriesList]);
 
-  if (monthKeys.length === 0) {
+  if (focusLogs.length === 0) {
     return (
       <div className="h-96 flex flex-col items-center justify-center text-white/40 border-2 border-dashed border-white/10 rounded-3xl">
         <p className="text-xl">No performance data available.</p>
@@ -89,30 +328,97 @@ export const PerformanceGraph: React.FC<PerformanceGraphProps> = ({ data, isMain
     );
   }
 
-  const formatTick = (mins: number) => {
-    const h = Math.floor(mins / 60);
-    const m = Math.round(mins % 60);
+  const formatTick = (value: number) => {
+    if (metric === 'sessions') return `${Math.round(value)}`;
+    const h = Math.floor(value / 60);
+    const m = Math.round(value % 60);
     return h > 0 ? `${h}h${m > 0 ? m + 'm' : ''}` : `${m}m`;
   };
 
-  const chartData = activeTab ? groupedData[activeTab] : [];
   const chartHeight = isMainView ? 400 : 250;
+  const canDrill = !drillProject && groupBy === 'project';
+  const labelEvery = Math.ceil(chartData.length / MAX_AXIS_LABELS);
+  const slotWidth = 100 / Math.max(1, chartData.length);
+  const toY = (value: number) => 100 - (value / maxY) * 100;
+
+  const total = chartData.reduce((sum, item) => sum + item.total, 0);
+  const previousTotal = previousData.reduce((sum, item) => sum + item.total, 0);
+  const change = previousTotal > 0 ? Math.round(((total - previousTotal) / previousTotal) * 100) : null;
+
+  const handleRangeInput = (field: 'from' | 'to', value: string) => {
+    if (!value) return;
+    const next = { ...range, [field]: value };
+    if (next.from > next.to) return;
+    setPreset('custom');
+    setCustomRange(next);
+  };
+
+  const selectMonth = (key: string) => {
+    setMonthKey(key);
+    setPreset('month');
+  };
 
   return (
     <div className="w-full text-white">
-      <div className="flex overflow-x-auto gap-2 mb-8 pb-2 border-b border-white/10 scrollbar-thin">
+      <div className="flex overflow-x-auto gap-2 mb-6 pb-2 border-b border-white/10 scrollbar-thin">
         {monthKeys.map(key => (
           <button
             key={key}
-            onClick={() => setActiveTab(key)}
+            onClick={() => selectMonth(key)}
             className={`px-6 py-3 text-lg font-medium rounded-t-xl transition-all whitespace-nowrap
-              ${activeTab === key ? 'bg-white/20 text-white border-b-4 border-white' : 'text-white/50 hover:text-white hover:bg-white/5'}`}
+              ${preset === 'month' && activeMonthKey === key ? 'bg-white/20 text-white border-b-4 border-white' : 'text-white/50 hover:text-white hover:bg-white/5'}`}
           >
-            {key}
+            {parseDateKey(`${key}-01`).toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
           </button>
         ))}
       </div>
 
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        {drillProject ? (
+          <button onClick={() => setDrillProjectId(null)} className="flex items-center gap-2 bg-white/10 hover:bg-white/20 px-4 py-2 rounded-xl text-sm transition-colors">
+            <ArrowLeft className="w-4 h-4" /> All projects <span className="text-white/50">/ {drillProject.name}</span>
+          </button>
+        ) : (
+          <SegmentedControl options={GROUP_OPTIONS} value={groupBy} onChange={setGroupBy} />
+        )}
+        <div className="flex flex-wrap gap-4">
+          <SegmentedControl options={PERIOD_OPTIONS} value={period} onChange={setPeriod} />
+          <SegmentedControl options={METRIC_OPTIONS} value={metric} onChange={setMetric} />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 mb-4 pb-4 border-b border-white/10">
+        {PRESET_OPTIONS.map(option => (
+          <button
+            key={option.value}
+            onClick={() => setPreset(option.value)}
+            className={`px-3 py-1.5 text-sm rounded-lg transition-all whitespace-nowrap ${preset === option.value ? 'bg-white/20 text-white font-medium' : 'text-white/50 hover:text-white hover:bg-white/5'}`}
+          >
+            {option.label}
+          </button>
+        ))}
+        <div className="flex items-center gap-2 ml-auto text-sm">
+          <input type="date" value={range.from} max={range.to} onChange={(e) => handleRangeInput('from', e.target.value)} className="bg-white/10 border border-white/10 rounded-lg px-2 py-1 text-white [color-scheme:dark]" />
+          <span className="text-white/40">–</span>
+          <input type="date" value={range.to} min={range.from} onChange={(e) => handleRangeInput('to', e.target.value)} className="bg-white/10 border border-white/10 rounded-lg px-2 py-1 text-white [color-scheme:dark]" />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-8">
+        <div className="text-sm text-white/70">
+          <span className="text-2xl font-bold text-white mr-2">{formatTick(total)}{metric === 'sessions' ? ' sessions' : ''}</span>
+          {change !== null ? (
+            <span className={change >= 0 ? 'text-emerald-300' : 'text-rose-300'}>{change >= 0 ? '▲' : '▼'} {Math.abs(change)}%</span>
+          ) : null}
+          <span className="text-white/40"> vs. {preset === 'month' ? 'the month before' : `previous ${rangeDays} ${rangeDays === 1 ? 'day' : 'days'}`} ({formatTick(previousTotal)})</span>
+        </div>
+        <div className="flex flex-wrap gap-4">
+          <Toggle label={`${AVERAGE_WINDOW[period]}-${period} average`} checked={showAverage} onChange={setShowAverage} swatch={<span className="w-4 border-t-2 border-amber-300" />} />
+          <Toggle label="Daily target" checked={showTarget} onChange={setShowTarget} swatch={<span className="w-4 border-t-2 border-dashed border-emerald-300" />} />
+          <Toggle label="Previous period" checked={showPrevious} onChange={setShowPrevious} swatch={<span className="w-3 h-3 rounded-sm border border-white/40" />} />
+        </div>
+      </div>
+
       <div className="flex gap-6">
         <div className="flex flex-col justify-between items-end text-sm text-white/40 font-mono w-16 flex-shrink-0 select-none" style={{ height: chartHeight }}>
           {allTicks.slice().reverse().map((tick) => (
@@ -121,37 +427,96 @@ export const PerformanceGraph: React.FC<PerformanceGraphProps> = ({ data, isMain
         </div>
 
         <div className="flex-1 overflow-x-auto">
-          <div className="min-w-[600px] relative" style={{ height: chartHeight }}> 
+          <div className="relative" style={{ height: chartHeight, minWidth: Math.max(600, chartData.length * 12) }}>
             <div className="absolute inset-0 pointer-events-none">
               {allTicks.map((tick) => (
                 <div key={tick} className="absolute w-full border-t border-white/5" style={{ bottom: `${(tick / maxY) * 100}%` }} />
               ))}
             </div>
 
-            <div className="absolute inset-0 flex items-end justify-around px-4 z-10">
+            <div className="absolute inset-0 flex items-end z-10">
               {chartData.map((item, index) => {
-                const height = (item.minutes / maxY) * 100;
+                const height = (item.total / maxY) * 100;
+                const segments = seriesList.filter(series => item.values[series.key] > 0);
+                const previous = previousData[index];
                 return (
-                  <div key={index} className="flex flex-col items-center flex-1 group relative mx-2 h-full justify-end">
+                  <div key={item.key} className={`flex flex-col items-center flex-1 group relative h-full justify-end ${chartData.length > 40 ? 'mx-px' : 'mx-2'}`}>
                     <div className="absolute bottom-full mb-2 opacity-0 group-hover:opacity-100 transition-all bg-gray-900 text-white text-xs rounded-lg py-2 px-3 whitespace-nowrap z-20 pointer-events-none shadow-xl border border-white/10">
-                      <div className="font-bold">{formatTick(item.minutes)}</div>
+                      <div className="font-bold">{formatTick(item.total)}{metric === 'sessions' ? ' sessions' : ''}</div>
                       <div className="text-[10px] text-white/50">{item.dateLabel}</div>
+                      {segments.length > 1 && segments.map(series => (
+                        <div key={series.key} className="flex items-center gap-2 text-[10px] mt-1">
+                          <span className="w-2 h-2 rounded-full" style={{ backgroundColor: series.color }} />
+                          <span className="text-white/70">{series.label}</span>
+                          <span className="ml-auto pl-3 font-mono">{formatTick(item.values[series.key])}</span>
+                        </div>
+                      ))}
+                      {showPrevious && previous && <div className="text-[10px] text-white/50 mt-1">Previous: {formatTick(previous.total)} ({previous.dateLabel})</div>}
                     </div>
-                    <div 
-                      style={{ height: `${Math.max(height, 2)}%` }} 
-                      className="w-full bg-white/80 rounded-t-lg hover:bg-white transition-all shadow-[0_0_15px_rgba(255,255,255,0.2)] max-w-[50px]"
-                    ></div>
-                    <div className="absolute top-[calc(100%+8px)] text-[11px] text-white/60 font-mono rotate-45 origin-left whitespace-nowrap">
-                      {item.dayLabel}
-                    </div>
+                    {showPrevious && previous && previous.total > 0 && (
+                      <div className="absolute bottom-0 w-full max-w-[50px] border border-white/30 border-b-0 rounded-t-lg pointer-events-none" style={{ height: `${(previous.total / maxY) * 100}%` }} />
+                    )}
+                    {item.total > 0 && (
+                      <div
+                        style={{ height: `${Math.max(height, 1)}%` }}
+                        className="w-full flex flex-col-reverse rounded-t-lg overflow-hidden hover:brightness-110 transition-all shadow-[0_0_15px_rgba(255,255,255,0.2)] max-w-[50px]"
+                      >
+                        {segments.map(series => (
+                          <div
+                            key={series.key}
+                            onClick={canDrill && series.projectId ? () => setDrillProjectId(series.projectId!) : undefined}
+                            className={canDrill && series.projectId ? 'cursor-pointer' : ''}
+                            style={{ height: `${(item.values[series.key] / item.total) * 100}%`, backgroundColor: series.color }}
+                          />
+                        ))}
+                      </div>
+                    )}
+                    {index % labelEvery === 0 && (
+                      <div className="absolute top-[calc(100%+8px)] text-[11px] text-white/60 font-mono rotate-45 origin-left whitespace-nowrap">
+                        {item.dayLabel}
+                      </div>
+                    )}
                   </div>
                 );
               })}
             </div>
+
+            {/* Reference lines, drawn over the bars in a 0-100 coordinate space */}
+            <svg className="absolute inset-0 w-full h-full z-10 pointer-events-none overflow-visible" viewBox="0 0 100 100" preserveAspectRatio="none">
+              {showTarget && targets.map((target, i) => (
+                <line key={`target-${i}`} x1={i * slotWidth} x2={(i + 1) * slotWidth} y1={toY(target)} y2={toY(target)} stroke="#6ee7b7" strokeWidth={2} strokeDasharray="6 4" vectorEffect="non-scaling-stroke" />
+              ))}
+              {showAverage && chartData.length > 1 && (
+                <polyline
+                  points={averages.map((value, i) => `${(i + 0.5) * slotWidth},${toY(value)}`).join(' ')}
+                  fill="none" stroke="#fcd34d" strokeWidth={2} strokeLinejoin="round" vectorEffect="non-scaling-stroke"
+                />
+              )}
+            </svg>
           </div>
         </div>
       </div>
-      <div className="mt-20 text-center text-lg text-white/40">Daily Focus Intensity</div>
+
+      {legend.length > 0 && (groupBy !== 'total' || drillProject) && (
+        <div className="mt-20 flex flex-wrap justify-center gap-2">
+          {legend.map(series => (
+            <button
+              key={series.key}
+              onClick={() => series.projectId && setDrillProjectId(series.projectId)}
+              disabled={!canDrill || !series.projectId}
+              className="flex items-center gap-2 bg-white/5 enabled:hover:bg-white/15 px-3 py-1.5 rounded-full text-xs transition-colors disabled:cursor-default"
+              title={canDrill && series.projectId ? 'Show subtasks' : undefined}
+            >
+              <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: series.color }} />
+              <span className="text-white/80">{series.label}</span>
+              <span className="font-mono text-white/40">{formatTick(series.total)}</span>
+            </button>
+          ))}
+        </div>
+      )}
+      <div className={`${legend.length > 0 && (groupBy !== 'total' || drillProject) ? 'mt-6' : 'mt-20'} text-center text-lg text-white/40`}>
+        {drillProject ? `${drillProject.name} by Subtask` : `${PERIOD_NOUN[period]} ${metric === 'sessions' ? 'Sessions' : 'Focus Intensity'}`}
+      </div>
     </div>
   );
-};
\ No newline at end of file
+};
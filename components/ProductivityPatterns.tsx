@@ -0,0 +1,101 @@
+import React, { useMemo } from 'react';
+import { AppSessionLog, AppSettings, Project, ProjectCategory } from '../types';
+import { WINDOW_HOURS, getProductivityStats } from '../productivity';
+import { Briefcase, User } from 'lucide-react';
+
+interface ProductivityPatternsProps {
+  data: AppSessionLog[];
+  projects: Project[];
+  settings: AppSettings;
+}
+
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+const formatHour = (hour: number) => `${(hour % 24).toString().padStart(2, '0')}:00`;
+
+const CATEGORIES: { key: ProjectCategory; label: string; icon: React.ReactNode }[] = [
+  { key: 'work', label: 'Work', icon: <Briefcase className="w-4 h-4 text-blue-300" /> },
+  { key: 'personal', label: 'Personal', icon: <User className="w-4 h-4 text-purple-300" /> }
+];
+
+export const ProductivityPatterns: React.FC<ProductivityPatternsProps> = ({ data, projects, settings }) => {
+  const stats = useMemo(() => getProductivityStats(data, projects, settings), [data, projects, settings]);
+  const maxCell = Math.max(1, ...stats.byWeekdayHour.flat());
+  const totalCompleted = stats.byHour.reduce((sum, hour) => sum + hour.completed, 0);
+
+  return (
+    <div className="w-full text-white mt-12 pt-8 border-t border-white/10">
+      <div className="flex flex-wrap items-end justify-between gap-4 mb-6">
+        <h3 className="text-2xl font-bold">When You Focus</h3>
+        <div className="flex gap-6 text-sm text-white/60">
+          <span><span className="font-bold text-white">{totalCompleted}</span> completed of {stats.analysed} started</span>
+          {stats.skipped > 0 && <span title="Migrated from date-only logs, so their time of day is unknown">{stats.skipped} without a time left out</span>}
+        </div>
+      </div>
+
+      <div className="bg-black/10 rounded-2xl p-5 mb-6 overflow-x-auto">
+        <h3 className="text-xs font-bold uppercase tracking-wider text-white/50 mb-4">Completed pomodoros by weekday and hour</h3>
+        <div className="min-w-[560px]">
+          {stats.byWeekdayHour.map((hours, weekday) => (
+            <div key={weekday} className="flex items-center gap-1 mb-1">
+              <div className="w-10 text-[10px] font-mono text-white/40">{WEEKDAY_NAMES[weekday]}</div>
+              {hours.map((count, hour) => (
+                <div
+                  key={hour}
+                  className="flex-1 h-5 rounded-sm"
+                  style={{ backgroundColor: count > 0 ? `rgba(255,255,255,${0.15 + (count / maxCell) * 0.75})` : 'rgba(255,255,255,0.05)' }}
+                  title={`${WEEKDAY_NAMES[weekday]} ${formatHour(hour)} · ${count} completed`}
+                />
+              ))}
+            </div>
+          ))}
+          <div className="flex gap-1 mt-2 text-[10px] font-mono text-white/40">
+            <div className="w-10" />
+            {HOURS.map(hour => <div key={hour} className="flex-1 text-center">{hour % 3 === 0 ? formatHour(hour).slice(0, 2) : ''}</div>)}
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="bg-black/10 rounded-2xl p-5">
+          <h3 className="text-xs font-bold uppercase tracking-wider text-white/50 mb-4">Completion rate by hour</h3>
+          <div className="flex items-end gap-1 h-32">
+            {stats.byHour.map(({ started, completed }, hour) => (
+              <div key={hour} className="flex-1 flex flex-col justify-end h-full" title={`${formatHour(hour)} · ${started > 0 ? Math.round((completed / started) * 100) : 0}% (${completed} of ${started} finished)`}>
+                <div className="bg-white/80 rounded-t-sm" style={{ height: `${started > 0 ? (completed / started) * 100 : 0}%` }} />
+              </div>
+            ))}
+          </div>
+          <div className="flex gap-1 mt-2 text-[10px] font-mono text-white/40">
+            {HOURS.map(hour => <div key={hour} className="flex-1 text-center">{hour % 3 === 0 ? formatHour(hour).slice(0, 2) : ''}</div>)}
+          </div>
+        </div>
+
+        <div className="bg-black/10 rounded-2xl p-5">
+          <h3 className="text-xs font-bold uppercase tracking-wider text-white/50 mb-4">Best {WINDOW_HOURS}-hour windows</h3>
+          <div className="space-y-4">
+            {CATEGORIES.map(({ key, label, icon }) => (
+              <div key={key}>
+                <div className="flex items-center gap-2 text-sm font-medium mb-2">{icon} {label}</div>
+                {stats.windows[key].length === 0 ? (
+                  <p className="text-sm text-white/40">Nothing recorded yet.</p>
+                ) : (
+                  <div className="space-y-1">
+                    {stats.windows[key].map((focusWindow, rank) => (
+                      <div key={focusWindow.startHour} className={`flex items-center justify-between text-sm ${rank === 0 ? 'text-white' : 'text-white/60'}`}>
+                        <span className="font-mono">{formatHour(focusWindow.startHour)}–{formatHour(focusWindow.startHour + WINDOW_HOURS)}</span>
+                        <span>{focusWindow.completed} sessions · {Math.round(focusWindow.share * 100)}%</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+          <p className="text-[10px] text-white/40 mt-4 italic">Good candidates for deep-work hours in the agenda.</p>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,63 @@
+import React from 'react';
+import { Project, TimerMode, TimerState } from '../types';
+import { Modal } from './Modal';
+import { Button } from './Button';
+import { formatTime } from '../utils';
+import { getElapsedMs, getRemainingMs, isRunPaused } from '../timerEngine';
+import { History, Play, CheckCircle, Trash2 } from 'lucide-react';
+
+interface ResumeTimerModalProps {
+  state: TimerState | null;
+  projects: Project[];
+  onResume: () => void;
+  onLogCompleted: () => void;
+  onDiscard: () => void;
+}
+
+const MODE_LABELS: Record<TimerMode, string> = {
+  [TimerMode.POMODORO]: 'Pomodoro',
+  [TimerMode.SHORT_BREAK]: 'Short Break',
+  [TimerMode.LONG_BREAK]: 'Long Break'
+};
+
+export const ResumeTimerModal: React.FC<ResumeTimerModalProps> = ({ state, projects, onResume, onLogCompleted, onDiscard }) => {
+  if (!state?.run) return null;
+
+  const { run } = state;
+  const now = Date.now();
+  const project = projects.find(p => p.id === state.selectedProjectId);
+  const subtask = project?.subtasks.find(t => t.id === state.activeSubtaskId);
+  const wasPaused = isRunPaused(run);
+  // Wall-clock view: a running timer kept counting while the app was closed
+  const hasFinished = !wasPaused && getRemainingMs(run, now) <= 0;
+  // Resuming continues from the moment the app was last seen, not from now
+  const remainingAtSave = getRemainingMs(run, Math.min(state.savedAt, now));
+
+  return (
+    <Modal isOpen={true} onClose={onResume} title="Unfinished Session">
+      <div className="space-y-4 text-gray-800">
+        <div className="flex gap-3 bg-gray-50 border rounded-xl p-4">
+          <History className="w-5 h-5 text-rose-500 shrink-0 mt-0.5" />
+          <div className="text-sm">
+            <div className="font-bold">{MODE_LABELS[run.mode]}{project ? ` · ${project.name}` : ''}{subtask ? ` › ${subtask.name}` : ''}</div>
+            <div className="text-gray-500 text-xs mt-1">
+              Started {new Date(run.startedAt).toLocaleString()} · {formatTime(Math.round(getElapsedMs(run, Math.min(state.savedAt, now)) / 1000))} done, {formatTime(Math.ceil(remainingAtSave / 1000))} left{wasPaused ? ' (paused)' : ''}
+            </div>
+          </div>
+        </div>
+        <p className="text-sm text-gray-600">
+          {hasFinished
+            ? 'This session would have finished while the app was closed.'
+            : 'The app was closed while this session was in progress.'}
+        </p>
+        <div className="flex flex-col gap-2">
+          <Button variant="secondary" onClick={onResume} className="justify-start"><Play className="w-4 h-4" /> Resume with {formatTime(Math.ceil(remainingAtSave / 1000))} left</Button>
+          {hasFinished && (
+            <Button variant="secondary" onClick={onLogCompleted} className="justify-start"><CheckCircle className="w-4 h-4" /> Log as completed</Button>
+          )}
+          <Button variant="danger" onClick={onDiscard} className="justify-start"><Trash2 className="w-4 h-4" /> Discard</Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,33 @@
+import React from 'react';
+import { HardDrive, Loader2, AlertTriangle } from 'lucide-react';
+import { SaveStatus } from '../storage';
+
+interface SaveIndicatorProps {
+  status: SaveStatus;
+}
+
+export const SaveIndicator: React.FC<SaveIndicatorProps> = ({ status }) => {
+  if (status === 'idle') return null;
+
+  if (status === 'saving') {
+    return (
+      <div className="flex items-center gap-2 px-4 py-1 text-xs text-white/50 select-none">
+        <Loader2 className="w-3 h-3 animate-spin" /> Saving...
+      </div>
+    );
+  }
+
+  if (status === 'failed') {
+    return (
+      <div className="flex items-center gap-2 px-4 py-1 text-xs text-red-200 select-none" title="Changes could not be written to this browser's storage. Export a backup to be safe.">
+        <AlertTriangle className="w-3 h-3 text-red-300" /> Save failed
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2 px-4 py-1 text-xs text-white/40 select-none">
+      <HardDrive className="w-3 h-3" /> All changes saved
+    </div>
+  );
+};
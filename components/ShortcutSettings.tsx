@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import { ShortcutAction } from '../types';
+import { SHORTCUT_ACTIONS, DEFAULT_SHORTCUTS, getEventBinding, formatBinding, isReservedBinding } from '../shortcuts';
+
+interface ShortcutSettingsProps {
+  shortcuts: Record<ShortcutAction, string>;
+  onChange: (action: ShortcutAction, binding: string) => void;
+}
+
+// Click a binding, then press the new key combination. Escape cancels, Backspace clears.
+// Undo and redo combinations are refused and recording continues.
+export const ShortcutSettings: React.FC<ShortcutSettingsProps> = ({ shortcuts, onChange }) => {
+  const [recording, setRecordingAction] = useState<ShortcutAction | null>(null);
+  const [reserved, setReserved] = useState<string | null>(null);
+
+  const setRecording = (action: ShortcutAction | null) => {
+    setReserved(null);
+    setRecordingAction(action);
+  };
+
+  const handleKeyDown = (action: ShortcutAction, e: React.KeyboardEvent) => {
+    // Tab keeps moving focus; everything else belongs to the recorder
+    if (e.key === 'Tab') return;
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.key === 'Escape') return setRecording(null);
+    if (e.key === 'Backspace' || e.key === 'Delete') {
+      onChange(action, '');
+      return setRecording(null);
+    }
+    const binding = getEventBinding(e);
+    if (!binding) return;
+    if (isReservedBinding(binding)) return setReserved(binding);
+    onChange(action, binding);
+    setRecording(null);
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-x-4 gap-y-1">
+      {SHORTCUT_ACTIONS.map(({ action, label }) => (
+        <div key={action} className="flex items-center justify-between gap-2 text-sm py-0.5">
+          <span className="text-gray-600 truncate" title={label}>{label}</span>
+          <button
+            onClick={() => setRecording(recording === action ? null : action)}
+            onKeyDown={(e) => recording === action && handleKeyDown(action, e)}
+            onBlur={() => recording === action && setRecording(null)}
+            title={`Click to change (default: ${DEFAULT_SHORTCUTS[action] ? formatBinding(DEFAULT_SHORTCUTS[action]) : 'none'})`}
+            className={`shrink-0 min-w-[3.5rem] px-2 py-1 rounded border font-mono text-xs ${recording === action ? 'border-rose-400 bg-rose-50 text-rose-600' : 'bg-gray-50 text-gray-700 hover:border-gray-400'}`}
+          >
+            {recording === action ? 'Press…' : shortcuts[action] ? formatBinding(shortcuts[action]) : '—'}
+          </button>
+        </div>
+      ))}
+      {reserved && <p className="col-span-2 text-[10px] text-rose-500 mt-1">{formatBinding(reserved)} is reserved for undo and redo; press another combination.</p>}
+    </div>
+  );
+};
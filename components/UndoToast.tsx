@@ -0,0 +1,43 @@
+import React, { useEffect, useRef } from 'react';
+import { Undo2, Redo2, X } from 'lucide-react';
+
+export interface UndoToastState {
+  message: string;
+  action: 'undo' | 'redo';
+  id: number; // Changes on every toast so the auto-dismiss timer restarts
+}
+
+interface UndoToastProps {
+  toast: UndoToastState | null;
+  onAction: () => void;
+  onDismiss: () => void;
+}
+
+const TOAST_DURATION_MS = 6000;
+
+export const UndoToast: React.FC<UndoToastProps> = ({ toast, onAction, onDismiss }) => {
+  // Store callback in ref to avoid restarting the timer when its identity changes
+  const onDismissRef = useRef(onDismiss);
+
+  useEffect(() => {
+    onDismissRef.current = onDismiss;
+  }, [onDismiss]);
+
+  useEffect(() => {
+    if (!toast) return;
+    const timeout = setTimeout(() => onDismissRef.current(), TOAST_DURATION_MS);
+    return () => clearTimeout(timeout);
+  }, [toast?.id]);
+
+  if (!toast) return null;
+
+  return (
+    <div className="fixed bottom-16 left-1/2 -translate-x-1/2 z-[60] flex items-center gap-4 bg-gray-900 text-white pl-5 pr-2 py-2 rounded-full shadow-2xl border border-white/10 animate-fade-in-up text-sm">
+      <span>{toast.message}</span>
+      <button onClick={onAction} className="flex items-center gap-1.5 font-bold text-yellow-300 hover:text-yellow-200 px-2 py-1 rounded-full hover:bg-white/10 transition-colors">
+        {toast.action === 'undo' ? <><Undo2 className="w-4 h-4" /> Undo</> : <><Redo2 className="w-4 h-4" /> Redo</>}
+      </button>
+      <button onClick={onDismiss} className="p-1 text-white/40 hover:text-white rounded-full"><X className="w-4 h-4" /></button>
+    </div>
+  );
+};
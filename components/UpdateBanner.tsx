@@ -0,0 +1,22 @@
+import React from 'react';
+import { RefreshCw, X } from 'lucide-react';
+
+interface UpdateBannerProps {
+  isVisible: boolean;
+  onReload: () => void;
+  onDismiss: () => void;
+}
+
+export const UpdateBanner: React.FC<UpdateBannerProps> = ({ isVisible, onReload, onDismiss }) => {
+  if (!isVisible) return null;
+
+  return (
+    <div className="fixed top-4 left-1/2 -translate-x-1/2 z-[60] flex items-center gap-4 bg-gray-900 text-white pl-5 pr-2 py-2 rounded-full shadow-2xl border border-white/10 animate-fade-in-up text-sm">
+      <span>A new version of Studybook is available.</span>
+      <button onClick={onReload} className="flex items-center gap-1.5 font-bold text-yellow-300 hover:text-yellow-200 px-2 py-1 rounded-full hover:bg-white/10 transition-colors">
+        <RefreshCw className="w-4 h-4" /> Reload
+      </button>
+      <button onClick={onDismiss} className="p-1 text-white/40 hover:text-white rounded-full"><X className="w-4 h-4" /></button>
+    </div>
+  );
+};
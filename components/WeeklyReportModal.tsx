@@ -0,0 +1,54 @@
+import React, { useMemo, useState } from 'react';
+import { AppSessionLog, AppSettings, Project } from '../types';
+import { Modal } from './Modal';
+import { Button } from './Button';
+import { Markdown } from './Markdown';
+import { buildWeeklyReport } from '../weeklyReport';
+import { addDaysToKey, downloadFile, getTodayKey, getWeekStartKey } from '../utils';
+import { ChevronLeft, ChevronRight, Download } from 'lucide-react';
+
+interface WeeklyReportModalProps {
+  isOpen: boolean;
+  projects: Project[];
+  history: AppSessionLog[];
+  dayNotes: Record<string, string>;
+  settings: AppSettings;
+  onClose: () => void;
+}
+
+export const WeeklyReportModal: React.FC<WeeklyReportModalProps> = ({ isOpen, projects, history, dayNotes, settings, onClose }) => {
+  const currentWeekKey = getWeekStartKey(getTodayKey(settings));
+  const [weekStartKey, setWeekStartKey] = useState(currentWeekKey);
+
+  const report = useMemo(
+    () => (isOpen ? buildWeeklyReport({ projects, history, dayNotes, settings }, weekStartKey) : ''),
+    [isOpen, projects, history, dayNotes, settings, weekStartKey]
+  );
+
+  const handleClose = () => {
+    setWeekStartKey(currentWeekKey);
+    onClose();
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title="Weekly Review">
+      <div className="space-y-4 text-gray-800">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex gap-2">
+            <button onClick={() => setWeekStartKey(addDaysToKey(weekStartKey, -7))} className="p-2 rounded-lg border hover:bg-gray-100 transition-colors" title="Previous week"><ChevronLeft className="w-4 h-4" /></button>
+            <button onClick={() => setWeekStartKey(addDaysToKey(weekStartKey, 7))} disabled={weekStartKey >= currentWeekKey} className="p-2 rounded-lg border hover:bg-gray-100 disabled:opacity-30 transition-colors" title="Next week"><ChevronRight className="w-4 h-4" /></button>
+            {weekStartKey !== currentWeekKey && (
+              <button onClick={() => setWeekStartKey(currentWeekKey)} className="px-3 rounded-lg border hover:bg-gray-100 text-sm transition-colors">This week</button>
+            )}
+          </div>
+          <Button variant="secondary" onClick={() => downloadFile(report, `studybook_week_${weekStartKey}.md`, 'text/markdown;charset=utf-8')}>
+            <Download className="w-4 h-4" /> Download .md
+          </Button>
+        </div>
+        <div className="max-h-[60vh] overflow-auto border rounded-lg p-4 bg-gray-50">
+          <Markdown content={report} />
+        </div>
+      </div>
+    </Modal>
+  );
+};
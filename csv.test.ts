@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { AppSessionLog, Project, TimerMode } from './types';
+import { DEFAULT_SETTINGS } from './schema';
+import { exportHistoryCsv, importHistoryCsv, parseCsv, toCsv } from './csv';
+
+const session = (startedAt: string, projectId?: string, subtaskId?: string): AppSessionLog => ({
+  mode: TimerMode.POMODORO,
+  startedAt,
+  endedAt: new Date(new Date(startedAt).getTime() + 25 * 60000).toISOString(),
+  duration: '00:25:00',
+  projectId,
+  subtaskId
+});
+
+const project = (id: string, name: string, subtaskNames: string[]): Project => ({
+  id,
+  name,
+  createdAt: '2026-10-01T09:00:00.000Z',
+  subtasks: subtaskNames.map((subtaskName, index) => ({
+    id: `${id}-s${index + 1}`,
+    name: subtaskName,
+    targetSessions: 4,
+    completedSessions: 0,
+    importance: 'important',
+    urgency: 'not-emergent'
+  }))
+});
+
+const header = 'Started At,Duration,Project,Subtask';
+
+describe('CSV quoting', () => {
+  it('round trips fields with commas, quotes and line breaks', () => {
+    const rows = [['Name', 'Note'], ['Thesis, part 2', 'She said "done"\nthen left'], ['plain', '']];
+    expect(toCsv(rows)).toBe('Name,Note\r\n"Thesis, part 2","She said ""done""\nthen left"\r\nplain,\r\n');
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+
+  it('escapes cells a spreadsheet would run as formulas', () => {
+    expect(toCsv([['=SUM(A1)', '+1', '-2', '@cmd', 'a=b']])).toBe("'=SUM(A1),'+1,'-2,'@cmd,a=b\r\n");
+  });
+});
+
+describe('exportHistoryCsv and importHistoryCsv', () => {
+  it('round trips sessions, including names that need quoting or escaping', () => {
+    const projects = [project('p1', 'Thesis, "final"\ndraft', ['=Outline', '@Review'])];
+    const history = [
+      session('2026-10-19T10:00:00.000Z', 'p1', 'p1-s2'),
+      { ...session('2026-10-19T09:00:00.000Z', 'p1', 'p1-s1'), isPartial: true, countsTowardTarget: true },
+      { ...session('2026-10-19T09:30:00.000Z'), mode: TimerMode.SHORT_BREAK, duration: '00:05:00' }
+    ];
+
+    const csv = exportHistoryCsv(history, projects, DEFAULT_SETTINGS);
+    expect(csv).toContain("'=Outline");
+    const result = importHistoryCsv(csv, projects);
+    expect(result).toMatchObject({ fixed: [], dropped: [], rejected: [] });
+    expect(result.logs).toEqual([history[1], history[2], history[0]]);
+  });
+
+  it('matches projects and subtasks by name when the ids are unknown, ignoring case', () => {
+    const projects = [project('p1', 'Thesis', ['Outline', '-Appendix'])];
+    const csv = `${header}\r\n2026-10-19T09:00:00.000Z,00:25:00,thesis,OUTLINE\r\n2026-10-19T10:00:00.000Z,00:25:00,Thesis,'-Appendix\r\n`;
+    const result = importHistoryCsv(csv, projects);
+    expect(result.fixed).toEqual([]);
+    expect(result.logs.map(log => [log.projectId, log.subtaskId])).toEqual([['p1', 'p1-s1'], ['p1', 'p1-s2']]);
+  });
+
+  it('prefers the ids over the names, so renamed projects are still found', () => {
+    const projects = [project('p1', 'Thesis (renamed)', ['Outline v2'])];
+    const csv = `${header},Project ID,Subtask ID\r\n2026-10-19T09:00:00.000Z,00:25:00,Thesis,Outline,p1,p1-s1\r\n`;
+    expect(importHistoryCsv(csv, projects).logs[0]).toMatchObject({ projectId: 'p1', subtaskId: 'p1-s1' });
+  });
+
+  it('imports sessions with unknown names without them and reports each one', () => {
+    const projects = [project('p1', 'Thesis', ['Outline'])];
+    const csv = `${header}\r\n2026-10-19T09:00:00.000Z,00:25:00,Garden,Weeding\r\n2026-10-19T10:00:00.000Z,00:25:00,Thesis,Typesetting\r\n`;
+    const result = importHistoryCsv(csv, projects);
+    expect(result.logs.map(log => [log.projectId, log.subtaskId])).toEqual([[undefined, undefined], ['p1', undefined]]);
+    expect(result.fixed).toEqual([
+      'Row 2: no project named "Garden", imported without a project',
+      'Row 3: no subtask named "Typesetting" in "Thesis", imported without a subtask'
+    ]);
+  });
+
+  it('rejects a file without the columns it needs', () => {
+    expect(importHistoryCsv('Date,Project\r\n2026-10-19,Thesis\r\n', []).rejected).toHaveLength(1);
+  });
+});
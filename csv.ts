@@ -0,0 +1,192 @@
+import { AppSessionLog, AppSettings, Project, TimerMode } from './types';
+import { formatDuration, getLogDay, getLogDurationSeconds, parseDurationToSeconds } from './utils';
+
+// Session history as CSV, one row per session, for spreadsheets and scripts. Names are
+// written out for readability; the id columns let an import find projects that were
+// renamed since, and names are the fallback when the ids are unknown.
+
+export interface HistoryFilter {
+  from?: string; // Day key, inclusive
+  to?: string; // Day key, inclusive
+  projectId?: string | null; // undefined: every session; null: sessions without a project
+}
+
+export interface CsvImportResult {
+  logs: AppSessionLog[];
+  fixed: string[];
+  dropped: string[];
+  rejected: string[]; // Non-empty means the file could not be read at all
+}
+
+const COLUMNS = ['Date', 'Started At', 'Ended At', 'Mode', 'Duration', 'Minutes', 'Project', 'Subtask', 'Category', 'Partial', 'Counts Toward Target', 'Interruptions', 'Project ID', 'Subtask ID'] as const;
+type Column = typeof COLUMNS[number];
+
+const MODE_LABELS: Record<TimerMode, string> = {
+  [TimerMode.POMODORO]: 'Pomodoro',
+  [TimerMode.SHORT_BREAK]: 'Short Break',
+  [TimerMode.LONG_BREAK]: 'Long Break'
+};
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCell = (value: string): string => {
+  const safe = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+const unescapeText = (value: string): string => (value.startsWith("'") && FORMULA_PREFIX.test(value.slice(1)) ? value.slice(1) : value);
+
+export const toCsv = (rows: string[][]): string => rows.map(row => row.map(escapeCell).join(',')).join('\r\n') + '\r\n';
+
+// RFC 4180: quoted fields may contain commas, doubled quotes and line breaks
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (inQuotes) {
+      if (ch === '"' && input[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') inQuotes = false;
+      else field += ch;
+    } else if (ch === '"') inQuotes = true;
+    else if (ch === ',') { row.push(field); field = ''; }
+    else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else field += ch;
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+export const filterHistory = (history: AppSessionLog[], filter: HistoryFilter, settings: AppSettings): AppSessionLog[] =>
+  history.filter(log => {
+    const day = getLogDay(log, settings);
+    if (filter.from && day < filter.from) return false;
+    if (filter.to && day > filter.to) return false;
+    if (filter.projectId === null) return !log.projectId;
+    if (filter.projectId !== undefined) return log.projectId === filter.projectId;
+    return true;
+  });
+
+export const exportHistoryCsv = (history: AppSessionLog[], projects: Project[], settings: AppSettings): string => {
+  const projectsById = new Map(projects.map(p => [p.id, p]));
+  const rows = [...history]
+    .sort((a, b) => a.startedAt.localeCompare(b.startedAt))
+    .map(log => {
+      const project = log.projectId ? projectsById.get(log.projectId) : undefined;
+      const subtask = project?.subtasks.find(t => t.id === log.subtaskId);
+      const seconds = getLogDurationSeconds(log);
+      const cells: Record<Column, string> = {
+        'Date': getLogDay(log, settings),
+        'Started At': log.startedAt,
+        'Ended At': log.endedAt,
+        'Mode': MODE_LABELS[log.mode] ?? log.mode,
+        'Duration': log.duration,
+        'Minutes': (seconds / 60).toFixed(1),
+        'Project': project?.name ?? (log.projectId ? 'Deleted project' : ''),
+        'Subtask': subtask?.name ?? (log.subtaskId ? 'Deleted subtask' : ''),
+        'Category': project?.category ?? '',
+        'Partial': log.isPartial ? 'yes' : 'no',
+        'Counts Toward Target': !log.isPartial || log.countsTowardTarget ? 'yes' : 'no',
+        'Interruptions': String(log.interruptions?.length ?? 0),
+        'Project ID': log.projectId ?? '',
+        'Subtask ID': log.subtaskId ?? ''
+      };
+      return COLUMNS.map(column => cells[column]);
+    });
+  return toCsv([[...COLUMNS], ...rows]);
+};
+
+const parseMode = (value: string): TimerMode | null => {
+  const normalized = value.trim().toLowerCase();
+  const match = (Object.entries(MODE_LABELS) as [TimerMode, string][])
+    .find(([mode, label]) => mode === normalized || label.toLowerCase() === normalized);
+  return match ? match[0] : null;
+};
+
+const parseYesNo = (value: string): boolean => ['yes', 'true', '1'].includes(value.trim().toLowerCase());
+
+// Reads a file written by exportHistoryCsv (or edited from one). Columns are matched by
+// header name, so they may be reordered or left out. Interruptions are only a count in
+// the CSV and can't be restored.
+export const importHistoryCsv = (text: string, projects: Project[]): CsvImportResult => {
+  const result: CsvImportResult = { logs: [], fixed: [], dropped: [], rejected: [] };
+  const [header, ...rows] = parseCsv(text);
+  const columnIndex = new Map((header || []).map((name, index) => [name.trim().toLowerCase(), index]));
+  if (!columnIndex.has('started at') || !(columnIndex.has('duration') || columnIndex.has('ended at'))) {
+    result.rejected.push('The file has no "Started At" column together with a "Duration" or "Ended At" column.');
+    return result;
+  }
+  const read = (row: string[], column: Column): string => {
+    const index = columnIndex.get(column.toLowerCase());
+    return index === undefined ? '' : (row[index] ?? '').trim();
+  };
+
+  const projectsById = new Map(projects.map(p => [p.id, p]));
+  const findByName = <T extends { name: string }>(items: T[], name: string) =>
+    items.find(item => item.name.trim().toLowerCase() === name.toLowerCase());
+
+  rows.forEach((row, index) => {
+    const label = `Row ${index + 2}`;
+    const startedAt = new Date(read(row, 'Started At'));
+    if (isNaN(startedAt.getTime())) {
+      result.dropped.push(`${label}: unreadable start time "${read(row, 'Started At')}"`);
+      return;
+    }
+    const endedAtText = read(row, 'Ended At');
+    const endedAt = endedAtText ? new Date(endedAtText) : null;
+    let seconds = parseDurationToSeconds(read(row, 'Duration'));
+    if (seconds === null && endedAt && !isNaN(endedAt.getTime())) seconds = Math.max(0, Math.round((endedAt.getTime() - startedAt.getTime()) / 1000));
+    if (seconds === null) {
+      result.dropped.push(`${label}: unreadable duration "${read(row, 'Duration')}"`);
+      return;
+    }
+
+    let mode = TimerMode.POMODORO;
+    const modeText = read(row, 'Mode');
+    if (modeText) {
+      const parsed = parseMode(modeText);
+      if (parsed) mode = parsed;
+      else result.fixed.push(`${label}: unknown mode "${modeText}" imported as Pomodoro`);
+    }
+
+    const log: AppSessionLog = {
+      startedAt: startedAt.toISOString(),
+      endedAt: endedAt && !isNaN(endedAt.getTime()) ? endedAt.toISOString() : new Date(startedAt.getTime() + seconds * 1000).toISOString(),
+      mode,
+      duration: formatDuration(seconds)
+    };
+
+    const projectName = unescapeText(read(row, 'Project'));
+    const project = projectsById.get(read(row, 'Project ID')) ?? (projectName ? findByName(projects, projectName) : undefined);
+    if (project) log.projectId = project.id;
+    else if (projectName) result.fixed.push(`${label}: no project named "${projectName}", imported without a project`);
+
+    const subtaskName = unescapeText(read(row, 'Subtask'));
+    if (project && subtaskName) {
+      const subtaskId = read(row, 'Subtask ID');
+      const subtask = project.subtasks.find(t => t.id === subtaskId) ?? findByName(project.subtasks, subtaskName);
+      if (subtask) log.subtaskId = subtask.id;
+      else result.fixed.push(`${label}: no subtask named "${subtaskName}" in "${project.name}", imported without a subtask`);
+    }
+
+    if (parseYesNo(read(row, 'Partial'))) {
+      log.isPartial = true;
+      log.countsTowardTarget = parseYesNo(read(row, 'Counts Toward Target'));
+    }
+    result.logs.push(log);
+  });
+  return result;
+};
@@ -0,0 +1,81 @@
+import { AppSessionLog, AppSettings, Project, TimerMode } from './types';
+import { addDaysToKey, countsAsCompletedSession, getLogDay, getProjectsByDay, getTodayKey, parseDateKey } from './utils';
+
+// Daily goal tracking. A day meets the goal once its completed pomodoros reach the daily
+// target. Missing it on a rest day leaves the streak as it was, and today only counts once
+// it is met: until the day is over a streak is never broken by it.
+
+export interface GoalStreak {
+  current: number;
+  longest: number;
+  todaySessions: number;
+  target: number;
+  isTodayMet: boolean;
+}
+
+export interface ProjectStreak {
+  projectId: string;
+  current: number;
+  longest: number;
+}
+
+const isRestDay = (dateKey: string, settings: AppSettings): boolean => settings.restDays.includes(parseDateKey(dateKey).getDay());
+
+// The one definition of a day meeting the goal, shared by the streaks and the heatmap
+export const isDayOnTarget = (completedSessions: number, settings: AppSettings): boolean =>
+  completedSessions >= settings.dailyPomodoroTarget;
+
+// Completed pomodoros per day key
+export const getDailySessionCounts = (history: AppSessionLog[], settings: AppSettings): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  history.forEach(log => {
+    if (log.mode !== TimerMode.POMODORO || !countsAsCompletedSession(log)) return;
+    const day = getLogDay(log, settings);
+    counts[day] = (counts[day] || 0) + 1;
+  });
+  return counts;
+};
+
+export const getGoalStreak = (history: AppSessionLog[], settings: AppSettings): GoalStreak => {
+  const counts = getDailySessionCounts(history, settings);
+  const todayKey = getTodayKey(settings);
+  const target = settings.dailyPomodoroTarget;
+  const firstKey = Object.keys(counts).reduce((first, day) => (day < first ? day : first), todayKey);
+
+  let current = 0;
+  let longest = 0;
+  for (let day = firstKey; day <= todayKey; day = addDaysToKey(day, 1)) {
+    if (isDayOnTarget(counts[day] || 0, settings)) {
+      current++;
+      longest = Math.max(longest, current);
+    } else if (day !== todayKey && !isRestDay(day, settings)) {
+      current = 0;
+    }
+  }
+
+  const todaySessions = counts[todayKey] || 0;
+  return { current, longest, todaySessions, target, isTodayMet: isDayOnTarget(todaySessions, settings) };
+};
+
+// Streaks of daily projects from the day statuses shown on the calendar: a met day extends
+// the streak, a missed one ends it unless it falls on a rest day.
+export const getProjectStreaks = (projects: Project[], history: AppSessionLog[], settings: AppSettings): ProjectStreak[] => {
+  const dailyProjects = projects.filter(p => p.isDaily);
+  const projectsByDay = getProjectsByDay(dailyProjects, history, settings);
+  const streaks = new Map<string, ProjectStreak>();
+
+  Object.keys(projectsByDay).sort().forEach(day => {
+    projectsByDay[day].forEach(({ projectId, status }) => {
+      const streak = streaks.get(projectId) || { projectId, current: 0, longest: 0 };
+      streaks.set(projectId, streak);
+      if (status === 'success') {
+        streak.current++;
+        streak.longest = Math.max(streak.longest, streak.current);
+      } else if (status === 'failed' && !isRestDay(day, settings)) {
+        streak.current = 0;
+      }
+    });
+  });
+
+  return dailyProjects.flatMap(p => streaks.get(p.id) || []);
+};
@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_SETTINGS } from './schema';
+import { exportIcs, importIcs } from './ics';
+
+// Repeating events are expanded around today, so today is pinned
+const clock = { timeZone: 'UTC', dayStartHour: 0 };
+
+const calendar = (...events: string[][]): string =>
+  ['BEGIN:VCALENDAR', 'VERSION:2.0', ...events.flatMap(lines => ['BEGIN:VEVENT', ...lines, 'END:VEVENT']), 'END:VCALENDAR'].join('\r\n');
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(new Date('2026-10-19T12:00:00.000Z'));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('importIcs', () => {
+  it('expands a weekly rule in its own zone, skipping EXDATEs and replacing overridden occurrences', () => {
+    const text = calendar(
+      [
+        'UID:standup',
+        'SUMMARY:Standup',
+        'DTSTART;TZID=America/New_York:20261019T090000',
+        'DTEND;TZID=America/New_York:20261019T093000',
+        'RRULE:FREQ=WEEKLY;BYDAY=MO,WE;COUNT=6',
+        'EXDATE;TZID=America/New_York:20261021T090000'
+      ],
+      [
+        'UID:standup',
+        'SUMMARY:Standup (moved)',
+        'RECURRENCE-ID;TZID=America/New_York:20261026T090000',
+        'DTSTART;TZID=America/New_York:20261026T110000',
+        'DTEND;TZID=America/New_York:20261026T113000'
+      ]
+    );
+    const result = importIcs(text, 'work.ics', clock);
+    expect(result).toMatchObject({ fixed: [], dropped: [], rejected: [] });
+    // New York leaves daylight saving time on November 1st, so 9:00 moves from 13:00 to 14:00 UTC
+    expect(result.blocks.map(block => [block.id, block.title, block.start, block.end])).toEqual([
+      ['standup/2026-10-19T13:00:00.000Z', 'Standup', '2026-10-19T13:00:00.000Z', '2026-10-19T13:30:00.000Z'],
+      ['standup/2026-10-28T13:00:00.000Z', 'Standup', '2026-10-28T13:00:00.000Z', '2026-10-28T13:30:00.000Z'],
+      ['standup/2026-11-02T14:00:00.000Z', 'Standup', '2026-11-02T14:00:00.000Z', '2026-11-02T14:30:00.000Z'],
+      ['standup/2026-11-04T14:00:00.000Z', 'Standup', '2026-11-04T14:00:00.000Z', '2026-11-04T14:30:00.000Z'],
+      ['standup/2026-10-26T13:00:00.000Z', 'Standup (moved)', '2026-10-26T15:00:00.000Z', '2026-10-26T15:30:00.000Z']
+    ]);
+  });
+
+  it('skips months without the start day in a monthly rule of all-day events', () => {
+    const text = calendar(['UID:rent', 'SUMMARY:Rent', 'DTSTART;VALUE=DATE:20261031', 'RRULE:FREQ=MONTHLY;COUNT=3']);
+    expect(importIcs(text, 'home.ics', clock).blocks.map(block => [block.start, block.end, block.allDay])).toEqual([
+      ['2026-10-31', '2026-11-01', true],
+      ['2026-12-31', '2027-01-01', true],
+      ['2027-01-31', '2027-02-01', true]
+    ]);
+  });
+
+  it('imports only the first occurrence of a rule it does not support, and says so', () => {
+    const text = calendar(['UID:club', 'SUMMARY:Club', 'DTSTART:20261012T180000Z', 'DURATION:PT1H', 'RRULE:FREQ=MONTHLY;BYDAY=2MO']);
+    const result = importIcs(text, 'club.ics', clock);
+    expect(result.blocks).toHaveLength(1);
+    expect(result.blocks[0]).toMatchObject({ start: '2026-10-12T18:00:00.000Z', end: '2026-10-12T19:00:00.000Z' });
+    expect(result.fixed).toEqual(['"Club": repeat rule not supported, only the first occurrence was imported']);
+  });
+
+  it('reads times in an unknown zone in the app zone', () => {
+    const text = calendar(['UID:x', 'SUMMARY:Call', 'DTSTART;TZID=Mars/Olympus:20261020T100000', 'DTEND;TZID=Mars/Olympus:20261020T110000']);
+    const result = importIcs(text, 'x.ics', { timeZone: 'Europe/Berlin', dayStartHour: 0 });
+    expect(result.blocks[0]).toMatchObject({ start: '2026-10-20T08:00:00.000Z', end: '2026-10-20T09:00:00.000Z' });
+    expect(result.fixed).toEqual(['Unknown time zone "Mars/Olympus": its times were read in Europe/Berlin']);
+  });
+
+  it('unfolds continuation lines', () => {
+    const text = calendar(['UID:x', 'SUMMARY:Reading gro', ' up, chap', '\tter 4', 'DTSTART:20261020T100000Z', 'DTEND:20261020T110000Z']);
+    expect(importIcs(text, 'x.ics', clock).blocks[0].title).toBe('Reading group, chapter 4');
+  });
+});
+
+describe('exportIcs', () => {
+  it('folds long lines at 75 octets without splitting characters, and reads back the same text', () => {
+    const entry = 'Révision du chapitre 3; relire les notes, les sources et les références — encore une fois';
+    const ics = exportIcs(
+      { projects: [], history: [], dayAgendas: { '2026-10-20': { '09:00': entry } }, busyBlocks: [], settings: { ...DEFAULT_SETTINGS, timeZone: 'Europe/Berlin' } },
+      { projects: false, agenda: true, sessions: false }
+    );
+    const lines = ics.split('\r\n');
+    expect(lines.some(line => line.startsWith(' '))).toBe(true);
+    lines.forEach(line => expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75));
+    expect(ics).toContain('UID:agenda-2026-10-20-0900@studybook.app');
+
+    const result = importIcs(ics, 'studybook.ics', clock);
+    expect(result.blocks).toEqual([
+      { id: 'agenda-2026-10-20-0900@studybook.app', source: 'studybook.ics', title: entry, start: '2026-10-20T07:00:00.000Z', end: '2026-10-20T08:00:00.000Z' }
+    ]);
+  });
+});
@@ -0,0 +1,435 @@
+import { AppSessionLog, AppSettings, BusyBlock, Project, TimerMode } from './types';
+import { DayClock, addDaysToKey, countsAsCompletedSession, getBusyMinutesByDay, getLogDay, getProjectsByDay, getTodayKey, isValidTimeZone, parseDateKey, toDateKey, zonedTimeToUtc } from './utils';
+
+// iCalendar (RFC 5545) export and import. Every exported event gets a UID derived from the
+// data it comes from, so importing a newer export into a calendar client updates the events
+// it already has. Imported events become busy blocks in the agenda.
+
+export interface IcsExportOptions {
+  projects: boolean; // Scheduled project days, as all-day events
+  agenda: boolean; // Hourly agenda entries, as timed events
+  sessions: boolean; // Completed pomodoros, as timed events
+}
+
+const UID_DOMAIN = 'studybook.app';
+const MAX_LINE_OCTETS = 75;
+
+const escapeText = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Long lines are folded onto continuation lines starting with a space, without splitting characters
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const ch of line) {
+    const size = encoder.encode(ch).length;
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += ch;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const formatUtc = (ms: number): string => new Date(ms).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const formatDateValue = (dateKey: string): string => dateKey.replace(/-/g, '');
+
+interface IcsEvent {
+  uid: string;
+  summary: string;
+  description?: string;
+  start: { date: string } | { utc: number };
+  end: { date: string } | { utc: number };
+  categories?: string;
+}
+
+const eventLines = (event: IcsEvent, stamp: string): string[] => {
+  const time = (key: 'DTSTART' | 'DTEND', value: IcsEvent['start']) =>
+    'date' in value ? `${key};VALUE=DATE:${formatDateValue(value.date)}` : `${key}:${formatUtc(value.utc)}`;
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}@${UID_DOMAIN}`,
+    `DTSTAMP:${stamp}`,
+    time('DTSTART', event.start),
+    time('DTEND', event.end),
+    `SUMMARY:${escapeText(event.summary)}`
+  ];
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.categories) lines.push(`CATEGORIES:${escapeText(event.categories)}`);
+  // Scheduled project days shouldn't make the whole day show as busy
+  lines.push(`TRANSP:${'date' in event.start ? 'TRANSPARENT' : 'OPAQUE'}`, 'END:VEVENT');
+  return lines;
+};
+
+// Consecutive scheduled days of a project become one all-day event; work projects that
+// skip weekends therefore export one event per week.
+const getProjectEvents = (projects: Project[], history: AppSessionLog[], busyBlocks: BusyBlock[], settings: AppSettings): IcsEvent[] => {
+  const daysByProject = new Map<string, string[]>();
+  Object.entries(getProjectsByDay(projects, history, settings, getTodayKey(settings), getBusyMinutesByDay(busyBlocks, settings))).forEach(([dateKey, days]) => {
+    days.forEach(day => {
+      const list = daysByProject.get(day.projectId) || [];
+      list.push(dateKey);
+      daysByProject.set(day.projectId, list);
+    });
+  });
+
+  const events: IcsEvent[] = [];
+  projects.forEach(project => {
+    const days = (daysByProject.get(project.id) || []).sort();
+    let runStart = 0;
+    let run = 0;
+    days.forEach((day, i) => {
+      if (i + 1 < days.length && days[i + 1] === addDaysToKey(day, 1)) return;
+      events.push({
+        // Numbered per run so an estimate that moves keeps updating the same events
+        uid: `project-${project.id}-${run++}`,
+        summary: project.name,
+        description: project.description || undefined,
+        start: { date: days[runStart] },
+        end: { date: addDaysToKey(day, 1) }, // All-day end dates are exclusive
+        categories: project.category === 'work' ? 'Work' : 'Personal'
+      });
+      runStart = i + 1;
+    });
+  });
+  return events;
+};
+
+const getAgendaEvents = (dayAgendas: Record<string, Record<string, string>>, settings: AppSettings): IcsEvent[] =>
+  Object.entries(dayAgendas).flatMap(([dateKey, slots]) =>
+    Object.entries(slots)
+      .filter(([, text]) => text.trim() !== '')
+      .map(([slot, text]) => {
+        const [hour, minute] = slot.split(':').map(Number);
+        const start = zonedTimeToUtc(dateKey, hour, minute || 0, settings.timeZone);
+        const [firstLine, ...rest] = text.trim().split('\n');
+        return {
+          uid: `agenda-${dateKey}-${slot.replace(':', '')}`,
+          summary: firstLine.trim(),
+          description: rest.length > 0 ? text.trim() : undefined,
+          start: { utc: start },
+          end: { utc: start + 60 * 60 * 1000 }
+        };
+      })
+  );
+
+const getSessionEvents = (history: AppSessionLog[], projects: Project[], settings: AppSettings): IcsEvent[] => {
+  const projectsById = new Map(projects.map(p => [p.id, p]));
+  return history
+    .filter(log => log.mode === TimerMode.POMODORO && countsAsCompletedSession(log))
+    .map(log => {
+      const project = log.projectId ? projectsById.get(log.projectId) : undefined;
+      const subtask = project?.subtasks.find(t => t.id === log.subtaskId);
+      const startedAt = new Date(log.startedAt).getTime();
+      const day = getLogDay(log, settings);
+      return {
+        uid: `session-${startedAt}-${log.projectId || 'none'}-${log.subtaskId || 'none'}`,
+        summary: `Pomodoro${subtask ? `: ${subtask.name}` : project ? `: ${project.name}` : ''}`,
+        description: [project?.name, subtask?.name, `Focused ${log.duration}`].filter(Boolean).join('\n'),
+        // Sessions migrated from date-only logs have no real time of day
+        start: log.isTimeEstimated ? { date: day } : { utc: startedAt },
+        end: log.isTimeEstimated ? { date: addDaysToKey(day, 1) } : { utc: new Date(log.endedAt).getTime() },
+        categories: 'Pomodoro'
+      };
+    });
+};
+
+export const exportIcs = (
+  data: { projects: Project[]; history: AppSessionLog[]; dayAgendas: Record<string, Record<string, string>>; busyBlocks: BusyBlock[]; settings: AppSettings },
+  options: IcsExportOptions
+): string => {
+  const events = [
+    ...(options.projects ? getProjectEvents(data.projects, data.history, data.busyBlocks, data.settings) : []),
+    ...(options.agenda ? getAgendaEvents(data.dayAgendas, data.settings) : []),
+    ...(options.sessions ? getSessionEvents(data.history, data.projects, data.settings) : [])
+  ];
+  const stamp = formatUtc(Date.now());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Studybook//Studybook//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:Studybook',
+    ...events.flatMap(event => eventLines(event, stamp)),
+    'END:VCALENDAR'
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+// ----- Import -----
+
+export interface IcsImportResult {
+  blocks: BusyBlock[];
+  fixed: string[];
+  dropped: string[];
+  rejected: string[]; // Non-empty means the file could not be read at all
+}
+
+// Repeating events are expanded over this window around today
+const RECURRENCE_PAST_DAYS = 90;
+const RECURRENCE_FUTURE_DAYS = 365;
+// Guards against rules that never reach the window, e.g. a daily event from decades ago
+const MAX_RECURRENCE_STEPS = 20000;
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+// A date for all-day values, otherwise also a wall-clock time in a zone
+interface IcsTime {
+  date: string;
+  time?: { hour: number; minute: number; second: number; timeZone: string };
+}
+
+const unescapeText = (value: string): string =>
+  value.replace(/\\([\\;,nN])/g, (_, ch: string) => (ch === 'n' || ch === 'N' ? '\n' : ch));
+
+// The value starts at the first colon outside a quoted parameter value
+const parseProperty = (line: string): IcsProperty | null => {
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ':' && !inQuotes) {
+      const [name, ...paramParts] = line.slice(0, i).split(';');
+      const params: Record<string, string> = {};
+      paramParts.forEach(part => {
+        const eq = part.indexOf('=');
+        if (eq > 0) params[part.slice(0, eq).toUpperCase()] = part.slice(eq + 1).replace(/^"|"$/g, '');
+      });
+      return { name: name.toUpperCase(), params, value: line.slice(i + 1) };
+    }
+  }
+  return null;
+};
+
+const toInstant = (value: IcsTime): number => {
+  const { hour, minute, second, timeZone } = value.time!;
+  return zonedTimeToUtc(value.date, hour, minute, timeZone, second);
+};
+
+// DURATION values such as P1W, P1D or PT1H30M, in ms
+const parseIcsDuration = (value: string): number | null => {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!match) return null;
+  const [, sign, weeks, days, hours, minutes, seconds] = match.map(part => part ?? '0');
+  const ms = (((Number(weeks) * 7 + Number(days)) * 24 + Number(hours)) * 3600 + Number(minutes) * 60 + Number(seconds)) * 1000;
+  return sign === '-' ? -ms : ms;
+};
+
+const getWeekday = (dateKey: string): number => parseDateKey(dateKey).getDay();
+
+// Occurrence dates of a repeating event, in order, up to windowEnd. Covers what calendar
+// apps write for simple repeats: DAILY, WEEKLY (optionally on several weekdays), MONTHLY
+// and YEARLY on the start's own date, with INTERVAL, COUNT and UNTIL. Returns null for
+// anything else.
+const expandRule = (rule: string, start: IcsTime, windowEnd: string, readTime: (value: string) => IcsTime | null): string[] | null => {
+  const parts: Record<string, string> = {};
+  rule.split(';').forEach(part => {
+    const [key, value = ''] = part.split('=');
+    if (key) parts[key.trim().toUpperCase()] = value.trim().toUpperCase();
+  });
+  const freq = parts.FREQ;
+  const [, startMonth, startDay] = start.date.split('-').map(Number);
+  const understood = Object.entries(parts).every(([key, value]) => {
+    if (['FREQ', 'INTERVAL', 'COUNT', 'UNTIL', 'WKST'].includes(key)) return true;
+    if (key === 'BYDAY') return freq === 'WEEKLY' && value.split(',').every(code => WEEKDAY_CODES.includes(code));
+    // Some apps spell out the start's own day or month; those change nothing
+    if (key === 'BYMONTHDAY') return (freq === 'MONTHLY' || freq === 'YEARLY') && Number(value) === startDay;
+    if (key === 'BYMONTH') return freq === 'YEARLY' && Number(value) === startMonth;
+    return false;
+  });
+  if (!understood || !['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(freq)) return null;
+
+  const interval = Math.max(1, parseInt(parts.INTERVAL, 10) || 1);
+  const count = parts.COUNT ? parseInt(parts.COUNT, 10) : Infinity;
+  const until = parts.UNTIL ? readTime(parts.UNTIL) : null;
+  if (parts.UNTIL && !until) return null;
+  const isBeforeUntil = (dateKey: string): boolean => {
+    if (!until) return true;
+    if (!until.time || !start.time) return dateKey <= until.date;
+    return toInstant({ date: dateKey, time: start.time }) <= toInstant(until);
+  };
+
+  // Candidate dates for the nth step of the rule; steps can yield none (a missing 31st) or several weekdays
+  let stepDates: (step: number) => string[];
+  if (freq === 'DAILY') {
+    stepDates = step => [addDaysToKey(start.date, step * interval)];
+  } else if (freq === 'WEEKLY') {
+    const weekStart = WEEKDAY_CODES.indexOf(parts.WKST || 'MO');
+    const offsetOf = (weekday: number) => (weekday - weekStart + 7) % 7;
+    const firstWeek = addDaysToKey(start.date, -offsetOf(getWeekday(start.date)));
+    const weekdays = (parts.BYDAY ? parts.BYDAY.split(',').map(code => WEEKDAY_CODES.indexOf(code)) : [getWeekday(start.date)])
+      .map(offsetOf)
+      .sort((a, b) => a - b);
+    stepDates = step => weekdays.map(offset => addDaysToKey(firstWeek, step * interval * 7 + offset));
+  } else {
+    const monthsPerStep = freq === 'MONTHLY' ? interval : interval * 12;
+    const [startYear] = start.date.split('-').map(Number);
+    stepDates = step => {
+      const date = new Date(startYear, startMonth - 1 + step * monthsPerStep, startDay);
+      // Months without the start's day (the 31st, February 29th) are skipped
+      return date.getDate() === startDay ? [toDateKey(date.getFullYear(), date.getMonth(), date.getDate())] : [];
+    };
+  }
+
+  const dates: string[] = [];
+  let produced = 0;
+  for (let step = 0; step < MAX_RECURRENCE_STEPS; step++) {
+    for (const dateKey of stepDates(step)) {
+      if (dateKey < start.date) continue;
+      if (produced >= count || dateKey > windowEnd || !isBeforeUntil(dateKey)) return dates;
+      dates.push(dateKey);
+      produced++;
+    }
+  }
+  return dates;
+};
+
+// Reads the events of an .ics file as busy blocks. Cancelled events and ones marked as free
+// time are left out; repeating events are expanded around today. Times without a zone are
+// read in the app's time zone.
+export const importIcs = (text: string, source: string, clock: DayClock): IcsImportResult => {
+  const result: IcsImportResult = { blocks: [], fixed: [], dropped: [], rejected: [] };
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  if (!lines.some(line => line.trim().toUpperCase() === 'BEGIN:VCALENDAR')) {
+    result.rejected.push('The file is not an iCalendar (.ics) file.');
+    return result;
+  }
+
+  // Properties of each top-level VEVENT; nested components such as alarms are ignored
+  const events: IcsProperty[][] = [];
+  const stack: string[] = [];
+  lines.forEach(line => {
+    const property = parseProperty(line.trim());
+    if (!property) return;
+    if (property.name === 'BEGIN') {
+      stack.push(property.value.toUpperCase());
+      if (stack.length === 2 && stack[1] === 'VEVENT') events.push([]);
+    } else if (property.name === 'END') {
+      stack.pop();
+    } else if (stack.length === 2 && stack[1] === 'VEVENT') {
+      events[events.length - 1].push(property);
+    }
+  });
+
+  const unknownZones = new Set<string>();
+  const readTime = (value: string, params: Record<string, string> = {}): IcsTime | null => {
+    const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value.trim());
+    if (!match) return null;
+    const [, year, month, day, hour, minute, second, utc] = match;
+    const date = `${year}-${month}-${day}`;
+    if (hour === undefined || params.VALUE === 'DATE') return { date };
+    let timeZone = utc ? 'UTC' : params.TZID || clock.timeZone;
+    if (!isValidTimeZone(timeZone)) {
+      unknownZones.add(timeZone);
+      timeZone = clock.timeZone;
+    }
+    return { date, time: { hour: Number(hour), minute: Number(minute), second: Number(second), timeZone } };
+  };
+  const occurrenceKey = (value: IcsTime): string => (value.time ? new Date(toInstant(value)).toISOString() : value.date);
+
+  const todayKey = getTodayKey(clock);
+  const windowStart = addDaysToKey(todayKey, -RECURRENCE_PAST_DAYS);
+  const windowEnd = addDaysToKey(todayKey, RECURRENCE_FUTURE_DAYS);
+
+  // Edited occurrences of a repeating event come as separate events with a RECURRENCE-ID;
+  // they replace the occurrence they name
+  const overridden = new Map<string, Set<string>>();
+  events.forEach(props => {
+    const uid = props.find(p => p.name === 'UID')?.value;
+    const recurrenceId = props.find(p => p.name === 'RECURRENCE-ID');
+    const time = recurrenceId && readTime(recurrenceId.value, recurrenceId.params);
+    if (uid && time) overridden.set(uid, (overridden.get(uid) || new Set()).add(occurrenceKey(time)));
+  });
+
+  let skippedFree = 0;
+  const seenIds = new Set<string>();
+  events.forEach((props, index) => {
+    const get = (name: string) => props.find(p => p.name === name);
+    const title = unescapeText(get('SUMMARY')?.value ?? '').trim();
+    const label = title ? `"${title}"` : `Event #${index + 1}`;
+    if (get('STATUS')?.value.toUpperCase() === 'CANCELLED' || get('TRANSP')?.value.toUpperCase() === 'TRANSPARENT') {
+      skippedFree++;
+      return;
+    }
+
+    const dtStart = get('DTSTART');
+    const start = dtStart && readTime(dtStart.value, dtStart.params);
+    if (!start) {
+      result.dropped.push(`${label}: missing or unreadable start`);
+      return;
+    }
+    const dtEnd = get('DTEND');
+    const end = dtEnd && readTime(dtEnd.value, dtEnd.params);
+    const duration = get('DURATION') ? parseIcsDuration(get('DURATION')!.value) : null;
+
+    // Length in whole days for all-day events, in ms otherwise. Without an end, all-day
+    // events last one day and timed ones take no time.
+    let length: number;
+    if (!start.time) {
+      if (end) length = Math.round((parseDateKey(end.date).getTime() - parseDateKey(start.date).getTime()) / 86400000);
+      else length = duration !== null ? Math.round(duration / 86400000) : 1;
+    } else {
+      length = end?.time ? toInstant(end) - toInstant(start) : duration ?? 0;
+    }
+    if (length <= 0) {
+      result.dropped.push(`${label}: takes no time`);
+      return;
+    }
+
+    const uid = get('UID')?.value || `${occurrenceKey(start)}-${title}`;
+    const rule = get('RRULE')?.value;
+    let dates = [start.date];
+    if (rule) {
+      const expanded = expandRule(rule, start, windowEnd, value => readTime(value, start.time ? { TZID: start.time.timeZone } : {}));
+      if (expanded) {
+        dates = expanded.filter(date => date >= windowStart);
+      } else {
+        result.fixed.push(`${label}: repeat rule not supported, only the first occurrence was imported`);
+      }
+    }
+    const excluded = new Set(overridden.get(uid));
+    props.filter(p => p.name === 'EXDATE').forEach(p => {
+      p.value.split(',').forEach(value => {
+        const time = readTime(value, p.params);
+        if (time) excluded.add(occurrenceKey(time));
+      });
+    });
+
+    const recurrenceId = get('RECURRENCE-ID');
+    const overrideTime = recurrenceId && readTime(recurrenceId.value, recurrenceId.params);
+    dates.forEach(date => {
+      const occurrence: IcsTime = { date, time: start.time };
+      const key = occurrenceKey(occurrence);
+      if (!overrideTime && excluded.has(key)) return;
+      // Occurrences keep the id of the series occurrence they stand for, so edits replace it
+      const id = rule || overrideTime ? `${uid}/${overrideTime ? occurrenceKey(overrideTime) : key}` : uid;
+      if (seenIds.has(id)) return;
+      seenIds.add(id);
+      if (occurrence.time) {
+        const startMs = toInstant(occurrence);
+        result.blocks.push({ id, source, title, start: new Date(startMs).toISOString(), end: new Date(startMs + length).toISOString() });
+      } else {
+        result.blocks.push({ id, source, title, start: date, end: addDaysToKey(date, length), allDay: true });
+      }
+    });
+  });
+
+  if (skippedFree > 0) result.dropped.push(`${skippedFree} cancelled or free-time ${skippedFree === 1 ? 'event' : 'events'} skipped`);
+  unknownZones.forEach(zone => result.fixed.push(`Unknown time zone "${zone}": its times were read in ${clock.timeZone}`));
+  if (events.length === 0) result.rejected.push('The file contains no events.');
+  return result;
+};
@@ -1,6 +1,10 @@
 import React from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App';
+import { registerServiceWorker } from './serviceWorker';
+
+// Needed for notification buttons and offline startup; the app works the same without it
+registerServiceWorker();
 
 const container = document.getElementById('root');
 if (container) {
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { AppData, AppSessionLog, Project, TimerMode } from './types';
+import { mergeAppData, mergeLogs, resolveMerge } from './merge';
+
+const session = (startedAt: string, subtaskId = 's1'): AppSessionLog => ({
+  mode: TimerMode.POMODORO,
+  startedAt,
+  endedAt: new Date(new Date(startedAt).getTime() + 25 * 60000).toISOString(),
+  duration: '00:25:00',
+  projectId: 'p1',
+  subtaskId
+});
+
+const project = (completedSessions: number): Project => ({
+  id: 'p1',
+  name: 'Thesis',
+  createdAt: '2026-10-01T09:00:00.000Z',
+  subtasks: [{ id: 's1', name: 'Draft', targetSessions: 8, completedSessions, importance: 'important', urgency: 'emergent' }]
+});
+
+const backup = (changes: Partial<AppData> = {}): AppData => ({
+  version: 9,
+  projects: [project(2)],
+  appHistory: [],
+  dayNotes: {},
+  dayAgendas: {},
+  busyBlocks: [],
+  ...changes
+});
+
+describe('mergeLogs', () => {
+  it('matches identical sessions as a multiset', () => {
+    const a = session('2026-10-19T09:00:00.000Z');
+    const b = session('2026-10-19T10:00:00.000Z');
+    // The same session was logged twice in the incoming backup and once here
+    const merged = mergeLogs([a, b], [a, a, b, session('2026-10-19T11:00:00.000Z')]);
+    expect(merged.map(log => log.startedAt)).toEqual([
+      '2026-10-19T09:00:00.000Z',
+      '2026-10-19T10:00:00.000Z',
+      '2026-10-19T09:00:00.000Z',
+      '2026-10-19T11:00:00.000Z'
+    ]);
+  });
+});
+
+describe('mergeAppData', () => {
+  it('reports a conflict when completed sessions differ', () => {
+    const plan = mergeAppData(backup(), backup({ projects: [project(5)] }));
+    expect(plan.conflicts).toHaveLength(1);
+    expect(plan.conflicts[0]).toMatchObject({ id: 'subtask:s1', kind: 'subtask' });
+    expect(plan.merged.projects[0].subtasks[0].completedSessions).toBe(2);
+  });
+
+  it('reports a conflict for an agenda hour filled on both sides and adds free hours', () => {
+    const plan = mergeAppData(
+      backup({ dayAgendas: { '2026-10-19': { '09:00': 'Draft' } } }),
+      backup({ dayAgendas: { '2026-10-19': { '09:00': 'Review', '10:00': 'Email' } } })
+    );
+    expect(plan.conflicts).toEqual([
+      { id: 'agenda:2026-10-19:09:00', kind: 'agenda', label: 'Agenda 2026-10-19 09:00', date: '2026-10-19', hour: '09:00', current: 'Draft', incoming: 'Review' }
+    ]);
+    expect(plan.merged.dayAgendas).toEqual({ '2026-10-19': { '09:00': 'Draft', '10:00': 'Email' } });
+    expect(plan.stats.agendaSlotsAdded).toBe(1);
+  });
+
+  it('takes the incoming side of the conflicts picked', () => {
+    const plan = mergeAppData(
+      backup({ dayAgendas: { '2026-10-19': { '09:00': 'Draft' } } }),
+      backup({ projects: [project(5)], dayAgendas: { '2026-10-19': { '09:00': 'Review' } } })
+    );
+    const resolved = resolveMerge(plan, { 'subtask:s1': 'incoming', 'agenda:2026-10-19:09:00': 'current' });
+    expect(resolved.projects[0].subtasks[0].completedSessions).toBe(5);
+    expect(resolved.dayAgendas!['2026-10-19']['09:00']).toBe('Draft');
+  });
+});
@@ -0,0 +1,176 @@
+import { AppData, AppSessionLog, Project, Subtask } from './types';
+
+export type MergeSide = 'current' | 'incoming';
+
+interface ConflictBase {
+  id: string;
+  label: string;
+}
+
+export type MergeConflict =
+  | (ConflictBase & { kind: 'project'; projectId: string; current: Project; incoming: Project })
+  | (ConflictBase & { kind: 'subtask'; projectId: string; current: Subtask; incoming: Subtask })
+  | (ConflictBase & { kind: 'note'; date: string; current: string; incoming: string })
+  | (ConflictBase & { kind: 'agenda'; date: string; hour: string; current: string; incoming: string });
+
+export interface MergeStats {
+  projectsAdded: number;
+  subtasksAdded: number;
+  sessionsAdded: number;
+  notesAdded: number;
+  agendaSlotsAdded: number;
+  busyBlocksAdded: number;
+}
+
+export interface MergePlan {
+  merged: AppData; // Every conflict is resolved to the current side here
+  conflicts: MergeConflict[];
+  stats: MergeStats;
+}
+
+export const PROJECT_MERGE_FIELDS = ['name', 'description', 'category', 'isDaily', 'recurrenceEndDate', 'pomodoroMinutes'] as const;
+export const SUBTASK_MERGE_FIELDS = ['name', 'description', 'targetSessions', 'completedSessions', 'importance', 'urgency'] as const;
+
+// Treat absent, empty and false as the same "unset" value so optional fields don't cause noise
+const normalizeField = (value: unknown) => (value === undefined || value === '' || value === false ? null : value);
+
+export const differingFields = <T extends object>(a: T, b: T, fields: readonly (keyof T)[]): (keyof T)[] =>
+  fields.filter(f => normalizeField(a[f]) !== normalizeField(b[f]));
+
+const getLogMergeKey = (log: AppSessionLog): string =>
+  [log.startedAt, log.duration, log.projectId || '', log.subtaskId || ''].join('|');
+
+// Logs carry no id, so identical entries are matched as a multiset: a session present in
+// both backups is kept once, while genuinely repeated sessions on one side survive.
+export const mergeLogs = (current: AppSessionLog[], incoming: AppSessionLog[]): AppSessionLog[] => {
+  const available = new Map<string, number>();
+  current.forEach(log => {
+    const key = getLogMergeKey(log);
+    available.set(key, (available.get(key) || 0) + 1);
+  });
+
+  const added: AppSessionLog[] = [];
+  incoming.forEach(log => {
+    const key = getLogMergeKey(log);
+    const count = available.get(key) || 0;
+    if (count > 0) available.set(key, count - 1);
+    else added.push(log);
+  });
+  return [...current, ...added];
+};
+
+export const mergeAppData = (current: AppData, incoming: AppData): MergePlan => {
+  const conflicts: MergeConflict[] = [];
+  const stats: MergeStats = { projectsAdded: 0, subtasksAdded: 0, sessionsAdded: 0, notesAdded: 0, agendaSlotsAdded: 0, busyBlocksAdded: 0 };
+
+  // ----- Projects & Subtasks (matched by id) -----
+  const incomingById = new Map(incoming.projects.map(p => [p.id, p]));
+  const projects: Project[] = current.projects.map(project => {
+    const other = incomingById.get(project.id);
+    if (!other) return project;
+    incomingById.delete(project.id);
+
+    if (differingFields(project, other, PROJECT_MERGE_FIELDS).length > 0) {
+      conflicts.push({ id: `project:${project.id}`, kind: 'project', label: `Project "${project.name}"`, projectId: project.id, current: project, incoming: other });
+    }
+
+    const otherSubtasks = new Map(other.subtasks.map(t => [t.id, t]));
+    const subtasks = project.subtasks.map(task => {
+      const otherTask = otherSubtasks.get(task.id);
+      if (!otherTask) return task;
+      otherSubtasks.delete(task.id);
+      if (differingFields(task, otherTask, SUBTASK_MERGE_FIELDS).length > 0) {
+        conflicts.push({ id: `subtask:${task.id}`, kind: 'subtask', label: `Project "${project.name}" › "${task.name}"`, projectId: project.id, current: task, incoming: otherTask });
+      }
+      return task;
+    });
+    stats.subtasksAdded += otherSubtasks.size;
+
+    return { ...project, subtasks: [...subtasks, ...otherSubtasks.values()] };
+  });
+  stats.projectsAdded = incomingById.size;
+  projects.push(...incomingById.values());
+
+  // ----- Session history -----
+  const appHistory = mergeLogs(current.appHistory, incoming.appHistory);
+  stats.sessionsAdded = appHistory.length - current.appHistory.length;
+
+  // ----- Day notes -----
+  const dayNotes = { ...(current.dayNotes || {}) };
+  Object.entries(incoming.dayNotes || {}).forEach(([date, note]) => {
+    const existing = dayNotes[date];
+    if (!note.trim() || existing === note) return;
+    if (!existing?.trim()) {
+      dayNotes[date] = note;
+      stats.notesAdded++;
+    } else {
+      conflicts.push({ id: `note:${date}`, kind: 'note', label: `Note for ${date}`, date, current: existing, incoming: note });
+    }
+  });
+
+  // ----- Day agendas (matched per hour slot) -----
+  const dayAgendas: Record<string, Record<string, string>> = {};
+  Object.entries(current.dayAgendas || {}).forEach(([date, slots]) => { dayAgendas[date] = { ...slots }; });
+  Object.entries(incoming.dayAgendas || {}).forEach(([date, slots]) => {
+    Object.entries(slots).forEach(([hour, text]) => {
+      const existing = dayAgendas[date]?.[hour];
+      if (!text.trim() || existing === text) return;
+      if (!existing?.trim()) {
+        dayAgendas[date] = { ...(dayAgendas[date] || {}), [hour]: text };
+        stats.agendaSlotsAdded++;
+      } else {
+        conflicts.push({ id: `agenda:${date}:${hour}`, kind: 'agenda', label: `Agenda ${date} ${hour}`, date, hour, current: existing, incoming: text });
+      }
+    });
+  });
+
+  // ----- Busy blocks (copies of external calendars, so never in conflict) -----
+  const blockKeys = new Set((current.busyBlocks || []).map(b => `${b.source}|${b.id}`));
+  const addedBlocks = (incoming.busyBlocks || []).filter(b => !blockKeys.has(`${b.source}|${b.id}`));
+  const busyBlocks = [...(current.busyBlocks || []), ...addedBlocks];
+  stats.busyBlocksAdded = addedBlocks.length;
+
+  return {
+    merged: { ...current, projects, appHistory, dayNotes, dayAgendas, busyBlocks },
+    conflicts,
+    stats
+  };
+};
+
+// Applies the user's per-conflict picks on top of the current-side defaults in plan.merged
+export const resolveMerge = (plan: MergePlan, choices: Record<string, MergeSide>): AppData => {
+  const picked = plan.conflicts.filter(c => choices[c.id] === 'incoming');
+  let { projects, dayNotes = {}, dayAgendas = {} } = plan.merged;
+
+  picked.forEach(conflict => {
+    switch (conflict.kind) {
+      case 'project': {
+        const { incoming } = conflict;
+        projects = projects.map(p => p.id !== conflict.projectId ? p : {
+          ...p,
+          name: incoming.name,
+          description: incoming.description,
+          category: incoming.category,
+          isDaily: incoming.isDaily,
+          recurrenceEndDate: incoming.recurrenceEndDate,
+          pomodoroMinutes: incoming.pomodoroMinutes
+        });
+        break;
+      }
+      case 'subtask':
+        projects = projects.map(p => p.id !== conflict.projectId ? p : {
+          ...p,
+          subtasks: p.subtasks.map(t => t.id === conflict.incoming.id ? conflict.incoming : t)
+        });
+        break;
+      case 'note':
+        dayNotes = { ...dayNotes, [conflict.date]: conflict.incoming };
+        break;
+      case 'agenda':
+        dayAgendas = { ...dayAgendas, [conflict.date]: { ...(dayAgendas[conflict.date] || {}), [conflict.hour]: conflict.incoming } };
+        break;
+    }
+  });
+
+  return { ...plan.merged, projects, dayNotes, dayAgendas };
+};
@@ -0,0 +1,47 @@
+export type NotificationAction = 'start' | 'skip';
+
+// Message the service worker posts to the page when a notification button is clicked
+export const NOTIFICATION_ACTION_MESSAGE = 'studybook-notification-action';
+
+const NOTIFICATION_TAG = 'studybook-timer';
+
+// Notification buttons are only available through a service worker registration
+// and are missing from the DOM typings
+interface ActionNotificationOptions extends NotificationOptions {
+  actions?: { action: NotificationAction; title: string }[];
+  renotify?: boolean;
+}
+
+export const canNotify = (): boolean => typeof window !== 'undefined' && 'Notification' in window;
+
+export const requestNotificationPermission = async (): Promise<boolean> => {
+  if (!canNotify()) return false;
+  if (Notification.permission === 'granted') return true;
+  if (Notification.permission === 'denied') return false;
+  return (await Notification.requestPermission()) === 'granted';
+};
+
+export const showTimerNotification = async (title: string, body: string, actions: ActionNotificationOptions['actions'] = []) => {
+  if (!canNotify() || Notification.permission !== 'granted') return;
+  const options: ActionNotificationOptions = { body, tag: NOTIFICATION_TAG, renotify: true };
+  try {
+    const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+    if (registration) {
+      const withActions: ActionNotificationOptions = { ...options, actions };
+      await registration.showNotification(title, withActions);
+      return;
+    }
+    new Notification(title, options);
+  } catch (err) {
+    console.error("Failed to show notification", err);
+  }
+};
+
+export const subscribeToNotificationActions = (handler: (action: NotificationAction) => void): (() => void) => {
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return () => {};
+  const listener = (event: MessageEvent) => {
+    if (event.data?.type === NOTIFICATION_ACTION_MESSAGE) handler(event.data.action);
+  };
+  navigator.serviceWorker.addEventListener('message', listener);
+  return () => navigator.serviceWorker.removeEventListener('message', listener);
+};
@@ -0,0 +1,81 @@
+import { AppSessionLog, AppSettings, Project, ProjectCategory, TimerMode } from './types';
+import { countsAsCompletedSession, getHourInZone, getLogDay, parseDateKey } from './utils';
+
+// When focus actually happens, from the start time of each pomodoro. Logs migrated from
+// date-only data carry a placeholder time and are left out. Weekdays follow the app's day
+// boundary, so a session just after midnight belongs to the evening before, as in the agenda.
+
+export const WINDOW_HOURS = 2;
+const WINDOWS_PER_CATEGORY = 3;
+
+export interface HourStats {
+  started: number; // Pomodoros started in this hour, finished or not
+  completed: number;
+}
+
+export interface FocusWindow {
+  startHour: number; // Covers WINDOW_HOURS hours from here
+  completed: number;
+  share: number; // 0-1 of the category's completed pomodoros
+}
+
+export interface ProductivityStats {
+  byWeekdayHour: number[][]; // [weekday 0 = Sunday][hour]: completed pomodoros
+  byHour: HourStats[];
+  windows: Record<ProjectCategory, FocusWindow[]>;
+  analysed: number;
+  skipped: number; // Logs without a real time of day
+}
+
+// The busiest non-overlapping windows, best first
+const getBestWindows = (hourly: number[]): FocusWindow[] => {
+  const total = hourly.reduce((sum, count) => sum + count, 0);
+  const candidates = Array.from({ length: 24 - WINDOW_HOURS + 1 }, (_, startHour) => ({
+    startHour,
+    completed: hourly.slice(startHour, startHour + WINDOW_HOURS).reduce((sum, count) => sum + count, 0)
+  }))
+    .filter(w => w.completed > 0)
+    .sort((a, b) => b.completed - a.completed || a.startHour - b.startHour);
+
+  const picked: FocusWindow[] = [];
+  candidates.forEach(w => {
+    if (picked.length >= WINDOWS_PER_CATEGORY) return;
+    if (picked.some(p => Math.abs(p.startHour - w.startHour) < WINDOW_HOURS)) return;
+    picked.push({ ...w, share: w.completed / total });
+  });
+  return picked;
+};
+
+export const getProductivityStats = (history: AppSessionLog[], projects: Project[], settings: AppSettings): ProductivityStats => {
+  const byWeekdayHour = Array.from({ length: 7 }, () => new Array<number>(24).fill(0));
+  const byHour: HourStats[] = Array.from({ length: 24 }, () => ({ started: 0, completed: 0 }));
+  const byCategory: Record<ProjectCategory, number[]> = { work: new Array(24).fill(0), personal: new Array(24).fill(0) };
+  const categories = new Map(projects.map(p => [p.id, p.category || 'personal']));
+  let analysed = 0;
+  let skipped = 0;
+
+  history.forEach(log => {
+    if (log.mode !== TimerMode.POMODORO) return;
+    if (log.isTimeEstimated) {
+      skipped++;
+      return;
+    }
+    analysed++;
+    const hour = getHourInZone(new Date(log.startedAt), settings.timeZone);
+    byHour[hour].started++;
+    if (!countsAsCompletedSession(log)) return;
+
+    byHour[hour].completed++;
+    byWeekdayHour[parseDateKey(getLogDay(log, settings)).getDay()][hour]++;
+    const category = log.projectId ? categories.get(log.projectId) : undefined;
+    if (category) byCategory[category][hour]++;
+  });
+
+  return {
+    byWeekdayHour,
+    byHour,
+    windows: { work: getBestWindows(byCategory.work), personal: getBestWindows(byCategory.personal) },
+    analysed,
+    skipped
+  };
+};
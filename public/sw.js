@@ -0,0 +1,91 @@
+// Service worker: forwards notification button clicks to the open app window and, in
+// production builds, keeps the app shell cached so Studybook starts without a network.
+
+// Written by the build (see vite.config.ts) as self.__PRECACHE__ = { version, urls };
+// null in development, where nothing is cached. A new build changes this file, which is
+// how the browser notices an update.
+importScripts('/precache-manifest.js');
+
+const PRECACHE = self.__PRECACHE__ || null;
+const CACHE_PREFIX = 'studybook-';
+const PRECACHE_NAME = PRECACHE ? `${CACHE_PREFIX}${PRECACHE.version}` : null;
+const RUNTIME_CACHE_NAME = `${CACHE_PREFIX}runtime`;
+
+// Styling and fonts come from CDNs; they are cached the first time they load
+const RUNTIME_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com'];
+const CDN_PRECACHE = ['https://cdn.tailwindcss.com'];
+
+self.addEventListener('install', (event) => {
+  if (!PRECACHE) {
+    self.skipWaiting();
+    return;
+  }
+  // No skipWaiting: the page decides when to switch, so a running timer isn't cut off
+  event.waitUntil((async () => {
+    const cache = await caches.open(PRECACHE_NAME);
+    await cache.addAll(PRECACHE.urls);
+    const runtime = await caches.open(RUNTIME_CACHE_NAME);
+    await Promise.all(CDN_PRECACHE.map(async (url) => {
+      try {
+        await runtime.put(url, await fetch(new Request(url, { mode: 'no-cors' })));
+      } catch (err) {
+        // Offline during install; it will be cached on first use instead
+      }
+    }));
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names
+      .filter(name => name.startsWith(CACHE_PREFIX) && name !== PRECACHE_NAME && name !== RUNTIME_CACHE_NAME)
+      .map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'studybook-skip-waiting') self.skipWaiting();
+});
+
+const staleWhileRevalidate = async (request) => {
+  const cache = await caches.open(RUNTIME_CACHE_NAME);
+  const cached = await cache.match(request);
+  const network = fetch(request)
+    .then((response) => {
+      if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+      return response;
+    })
+    .catch(() => cached);
+  return cached || network;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (!PRECACHE || request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (url.origin === self.location.origin) {
+    // Every route is the single-page app, served from the cached shell
+    if (request.mode === 'navigate') {
+      event.respondWith(caches.match('/index.html', { cacheName: PRECACHE_NAME }).then(cached => cached || fetch(request)));
+      return;
+    }
+    event.respondWith(caches.match(request, { cacheName: PRECACHE_NAME }).then(cached => cached || fetch(request)));
+    return;
+  }
+
+  if (RUNTIME_HOSTS.includes(url.hostname)) event.respondWith(staleWhileRevalidate(request));
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    const client = windows[0];
+    if (!client) return self.clients.openWindow('/');
+    if (event.action) client.postMessage({ type: 'studybook-notification-action', action: event.action });
+    return client.focus();
+  })());
+});
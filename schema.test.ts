@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { CURRENT_DATA_VERSION, DEFAULT_SETTINGS, migrateAppData } from './schema';
+import { TimerMode } from './types';
+
+// A backup as the first release wrote it: no version, date-only logs in en-GB form,
+// mm:ss durations and notes keyed by Date.toDateString()
+const legacyBackup = {
+  projects: [{
+    id: 'p1',
+    name: 'Thesis',
+    createdAt: '2026-10-01T09:00:00.000Z',
+    subtasks: [{ id: 's1', name: 'Draft', targetSessions: 4, completedSessions: 1, importance: 'important', urgency: 'emergent' }]
+  }],
+  appHistory: [
+    { date: '19 October 2026', duration: '25:00', projectId: 'p1', subtaskId: 's1' }
+  ],
+  dayNotes: { 'Mon Oct 19 2026': 'Wrote the intro' },
+  dayAgendas: { 'Mon Oct 19 2026': { '09:00': 'Draft' } },
+  settings: {
+    durations: { pomodoro: 25, shortBreak: 5, longBreak: 15 },
+    colors: { pomodoro: '#f43f5e', shortBreak: '#14b8a6', longBreak: '#3b82f6' },
+    autoStartBreaks: false,
+    autoStartPomodoros: false,
+    dailyPomodoroTarget: 6
+  }
+};
+
+describe('migrateAppData', () => {
+  it('upgrades a legacy backup to the current version', () => {
+    const { data, report } = migrateAppData(legacyBackup);
+    expect(CURRENT_DATA_VERSION).toBe(9);
+    expect(report.fromVersion).toBe(0);
+    expect(report.migrations).toHaveLength(9);
+    expect(report.rejected).toEqual([]);
+    expect(report.dropped).toEqual([]);
+
+    const noon = new Date(2026, 9, 19, 12);
+    expect(data!.version).toBe(9);
+    expect(data!.appHistory).toEqual([{
+      startedAt: noon.toISOString(),
+      endedAt: new Date(noon.getTime() + 25 * 60000).toISOString(),
+      mode: TimerMode.POMODORO,
+      duration: '00:25:00',
+      projectId: 'p1',
+      subtaskId: 's1',
+      isTimeEstimated: true
+    }]);
+    expect(data!.dayNotes).toEqual({ '2026-10-19': 'Wrote the intro' });
+    expect(data!.dayAgendas).toEqual({ '2026-10-19': { '09:00': 'Draft' } });
+    expect(data!.busyBlocks).toEqual([]);
+    expect(data!.settings).toMatchObject({
+      dailyPomodoroTarget: 6,
+      restDays: [],
+      shortcuts: DEFAULT_SETTINGS.shortcuts,
+      dayStartHour: DEFAULT_SETTINGS.dayStartHour
+    });
+  });
+
+  it('rejects a backup from a newer version', () => {
+    const { data, report } = migrateAppData({ ...legacyBackup, version: CURRENT_DATA_VERSION + 1 });
+    expect(data).toBeNull();
+    expect(report.rejected[0]).toContain('newer version');
+  });
+
+  it('repairs a subtask without importance', () => {
+    const { importance: _, ...subtask } = legacyBackup.projects[0].subtasks[0];
+    const { data, report } = migrateAppData({ ...legacyBackup, projects: [{ ...legacyBackup.projects[0], subtasks: [subtask] }] });
+    expect(data!.projects[0].subtasks[0].importance).toBe('not-important');
+    expect(report.fixed).toContain('Project "Thesis" › "Draft": missing importance set to Normal');
+  });
+});
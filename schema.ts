@@ -0,0 +1,591 @@
+import { AppData, AppSessionLog, AppSettings, BusyBlock, CycleStep, ImportReport, Interruption, Project, ShortcutAction, Subtask, TimerMode } from './types';
+import { SOUND_IDS } from './sounds';
+import { DEFAULT_SHORTCUTS, isReservedBinding } from './shortcuts';
+import { generateId, parseDurationToSeconds, formatDuration, getBrowserTimeZone, isValidTimeZone, toDateKey } from './utils';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  durations: {
+    pomodoro: 25,
+    shortBreak: 5,
+    longBreak: 15
+  },
+  colors: {
+    pomodoro: '#f43f5e',
+    shortBreak: '#14b8a6',
+    longBreak: '#3b82f6'
+  },
+  autoStartBreaks: false,
+  autoStartPomodoros: false,
+  dailyPomodoroTarget: 6,
+  restDays: [],
+  timeZone: getBrowserTimeZone(),
+  dayStartHour: 0,
+  partialSessionThreshold: 80,
+  longBreakInterval: 4,
+  customCycle: [],
+  sounds: {
+    focusEnd: 'chime',
+    breakEnd: 'bell',
+    warning: 'soft'
+  },
+  volume: 70,
+  warningMinutes: 0,
+  notifications: false,
+  shortcuts: DEFAULT_SHORTCUTS
+};
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Notes and agendas used to be keyed by Date.toDateString() ("Mon Oct 19 2026")
+const toDayKey = (legacyKey: string): string | null => {
+  if (DATE_KEY_PATTERN.test(legacyKey)) return legacyKey;
+  const date = new Date(legacyKey);
+  return isNaN(date.getTime()) ? null : toDateKey(date.getFullYear(), date.getMonth(), date.getDate());
+};
+
+const rekeyByDay = <T>(record: unknown): unknown => {
+  if (!isObject(record)) return record;
+  const result: Record<string, T> = {};
+  Object.entries(record).forEach(([key, value]) => { result[toDayKey(key) ?? key] = value; });
+  return result;
+};
+
+type RawData = Record<string, any>;
+
+interface Migration {
+  version: number;
+  description: string;
+  migrate: (data: RawData) => RawData;
+}
+
+// Ordered chain: each entry upgrades raw data from `version - 1` to `version`.
+// Backups written before versioning existed are treated as version 0.
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Session durations normalized to hh:mm:ss',
+    migrate: (data) => ({
+      ...data,
+      appHistory: Array.isArray(data.appHistory) ? data.appHistory.map((log: unknown) => {
+        if (!isObject(log) || typeof log.duration !== 'string') return log;
+        const seconds = parseDurationToSeconds(log.duration);
+        return seconds === null ? log : { ...log, duration: formatDuration(seconds) };
+      }) : data.appHistory
+    })
+  },
+  {
+    version: 2,
+    description: 'Session logs given start/end timestamps and a timer mode',
+    migrate: (data) => ({
+      ...data,
+      appHistory: Array.isArray(data.appHistory) ? data.appHistory.map((log: unknown) => {
+        if (!isObject(log) || log.startedAt !== undefined || !isValidDateString(log.date)) return log;
+        // Only the calendar day was recorded, so the session is placed at noon of that day
+        const start = new Date(log.date);
+        start.setHours(12, 0, 0, 0);
+        const seconds = typeof log.duration === 'string' ? parseDurationToSeconds(log.duration) || 0 : 0;
+        const migrated: Record<string, any> = {
+          ...log,
+          startedAt: start.toISOString(),
+          endedAt: new Date(start.getTime() + seconds * 1000).toISOString(),
+          mode: TimerMode.POMODORO,
+          isTimeEstimated: true
+        };
+        delete migrated.date;
+        return migrated;
+      }) : data.appHistory
+    })
+  },
+  {
+    version: 3,
+    description: 'Notes and agendas re-keyed by YYYY-MM-DD day keys; time zone settings added',
+    migrate: (data) => ({
+      ...data,
+      dayNotes: rekeyByDay<string>(data.dayNotes),
+      dayAgendas: rekeyByDay<Record<string, string>>(data.dayAgendas),
+      settings: isObject(data.settings)
+        ? { timeZone: DEFAULT_SETTINGS.timeZone, dayStartHour: DEFAULT_SETTINGS.dayStartHour, ...data.settings }
+        : data.settings
+    })
+  },
+  {
+    version: 4,
+    description: 'Partial session credit threshold added to settings',
+    migrate: (data) => ({
+      ...data,
+      settings: isObject(data.settings)
+        ? { partialSessionThreshold: DEFAULT_SETTINGS.partialSessionThreshold, ...data.settings }
+        : data.settings
+    })
+  },
+  {
+    version: 5,
+    description: 'Long break interval and custom timer cycle added to settings',
+    migrate: (data) => ({
+      ...data,
+      settings: isObject(data.settings)
+        ? { longBreakInterval: DEFAULT_SETTINGS.longBreakInterval, customCycle: DEFAULT_SETTINGS.customCycle, ...data.settings }
+        : data.settings
+    })
+  },
+  {
+    version: 6,
+    description: 'Sound, volume, warning and notification settings added',
+    migrate: (data) => ({
+      ...data,
+      settings: isObject(data.settings)
+        ? {
+          sounds: DEFAULT_SETTINGS.sounds,
+          volume: DEFAULT_SETTINGS.volume,
+          warningMinutes: DEFAULT_SETTINGS.warningMinutes,
+          notifications: DEFAULT_SETTINGS.notifications,
+          ...data.settings
+        }
+        : data.settings
+    })
+  },
+  {
+    version: 7,
+    description: 'Keyboard shortcut bindings added to settings',
+    migrate: (data) => ({
+      ...data,
+      settings: isObject(data.settings)
+        ? { shortcuts: DEFAULT_SETTINGS.shortcuts, ...data.settings }
+        : data.settings
+    })
+  },
+  {
+    version: 8,
+    description: 'Busy blocks imported from external calendars added',
+    migrate: (data) => ({ busyBlocks: [], ...data })
+  },
+  {
+    version: 9,
+    description: 'Rest days added to settings',
+    migrate: (data) => ({
+      ...data,
+      settings: isObject(data.settings)
+        ? { restDays: DEFAULT_SETTINGS.restDays, ...data.settings }
+        : data.settings
+    })
+  }
+];
+
+export const CURRENT_DATA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+interface ValidationLog {
+  fixed: string[];
+  dropped: string[];
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+const isValidDateString = (value: unknown): value is string =>
+  typeof value === 'string' && !isNaN(new Date(value).getTime());
+
+const isCount = (value: unknown, min: number): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min;
+
+const validateSubtask = (raw: unknown, where: string, seenIds: Set<string>, log: ValidationLog): Subtask | null => {
+  if (!isObject(raw)) {
+    log.dropped.push(`${where}: subtask entry is not an object`);
+    return null;
+  }
+
+  const label = `${where} › ${isNonEmptyString(raw.name) ? `"${raw.name}"` : 'unnamed subtask'}`;
+  let id: string = raw.id;
+  if (!isNonEmptyString(id) || seenIds.has(id)) {
+    id = generateId();
+    log.fixed.push(`${label}: missing or duplicate id replaced`);
+  }
+  seenIds.add(id);
+
+  let name: string = raw.name;
+  if (!isNonEmptyString(name)) {
+    name = 'Untitled subtask';
+    log.fixed.push(`${label}: missing name set to "${name}"`);
+  }
+
+  let completedSessions: number = raw.completedSessions;
+  if (!isCount(completedSessions, 0)) {
+    completedSessions = 0;
+    log.fixed.push(`${label}: invalid completedSessions reset to 0`);
+  }
+
+  let targetSessions: number = raw.targetSessions;
+  if (!isCount(targetSessions, 1)) {
+    targetSessions = Math.max(1, completedSessions);
+    log.fixed.push(`${label}: invalid targetSessions set to ${targetSessions}`);
+  }
+
+  let importance = raw.importance;
+  if (importance !== 'important' && importance !== 'not-important') {
+    importance = 'not-important';
+    log.fixed.push(`${label}: missing importance set to Normal`);
+  }
+
+  let urgency = raw.urgency;
+  if (urgency !== 'emergent' && urgency !== 'not-emergent') {
+    urgency = 'not-emergent';
+    log.fixed.push(`${label}: missing urgency set to Routine`);
+  }
+
+  const subtask: Subtask = { id, name, targetSessions, completedSessions, importance, urgency };
+  if (typeof raw.description === 'string') subtask.description = raw.description;
+  return subtask;
+};
+
+const validateProject = (raw: unknown, index: number, seenIds: Set<string>, seenSubtaskIds: Set<string>, log: ValidationLog): Project | null => {
+  if (!isObject(raw)) {
+    log.dropped.push(`Project #${index + 1}: entry is not an object`);
+    return null;
+  }
+
+  const label = isNonEmptyString(raw.name) ? `Project "${raw.name}"` : `Project #${index + 1}`;
+  let id: string = raw.id;
+  if (!isNonEmptyString(id) || seenIds.has(id)) {
+    id = generateId();
+    log.fixed.push(`${label}: missing or duplicate id replaced`);
+  }
+  seenIds.add(id);
+
+  let name: string = raw.name;
+  if (!isNonEmptyString(name)) {
+    name = 'Untitled project';
+    log.fixed.push(`${label}: missing name set to "${name}"`);
+  }
+
+  let createdAt: string = raw.createdAt;
+  if (!isValidDateString(createdAt)) {
+    createdAt = new Date().toISOString();
+    log.fixed.push(`${label}: invalid createdAt set to now`);
+  }
+
+  let rawSubtasks: unknown[] = raw.subtasks;
+  if (!Array.isArray(rawSubtasks)) {
+    rawSubtasks = [];
+    log.fixed.push(`${label}: missing subtask list replaced with an empty one`);
+  }
+  const subtasks = rawSubtasks
+    .map(st => validateSubtask(st, label, seenSubtaskIds, log))
+    .filter((st): st is Subtask => st !== null);
+
+  const project: Project = { id, name, subtasks, createdAt };
+  if (typeof raw.description === 'string') project.description = raw.description;
+
+  if (raw.isDaily === true) {
+    if (isValidDateString(raw.recurrenceEndDate)) {
+      project.isDaily = true;
+      project.recurrenceEndDate = raw.recurrenceEndDate;
+    } else {
+      project.isDaily = false;
+      log.fixed.push(`${label}: daily project without a valid recurrence end date converted to a standard project`);
+    }
+  } else if (raw.isDaily !== undefined) {
+    project.isDaily = false;
+  }
+
+  if (raw.category === 'work' || raw.category === 'personal') {
+    project.category = raw.category;
+  } else if (raw.category !== undefined) {
+    project.category = 'personal';
+    log.fixed.push(`${label}: unknown category set to Personal`);
+  }
+
+  if (isCount(raw.pomodoroMinutes, 1)) project.pomodoroMinutes = raw.pomodoroMinutes;
+  else if (raw.pomodoroMinutes !== undefined) log.fixed.push(`${label}: invalid pomodoro length removed, Settings default used`);
+
+  return project;
+};
+
+const TIMER_MODES = Object.values(TimerMode) as string[];
+const INTERRUPTION_TYPES = ['internal', 'external'];
+
+const validateInterruptions = (raw: unknown[], label: string, log: ValidationLog): Interruption[] => {
+  const interruptions: Interruption[] = [];
+  raw.forEach(item => {
+    if (!isObject(item) || !isValidDateString(item.pausedAt) || !INTERRUPTION_TYPES.includes(item.type)) return;
+    const entry: Interruption = { pausedAt: new Date(item.pausedAt).toISOString(), type: item.type };
+    if (isValidDateString(item.resumedAt)) entry.resumedAt = new Date(item.resumedAt).toISOString();
+    if (isNonEmptyString(item.reason)) entry.reason = item.reason;
+    interruptions.push(entry);
+  });
+  if (interruptions.length < raw.length) log.dropped.push(`${label}: ${raw.length - interruptions.length} unreadable interruptions`);
+  return interruptions;
+};
+
+const validateLog = (raw: unknown, index: number, log: ValidationLog): AppSessionLog | null => {
+  let label = `Session #${index + 1}`;
+  if (!isObject(raw)) {
+    log.dropped.push(`${label}: entry is not an object`);
+    return null;
+  }
+  if (!isValidDateString(raw.startedAt)) {
+    log.dropped.push(`${label}: unreadable start time ${JSON.stringify(raw.startedAt ?? raw.date)}`);
+    return null;
+  }
+  const startedAt = new Date(raw.startedAt);
+  label = `${label} (${startedAt.toLocaleString('en-GB')})`;
+
+  let seconds = typeof raw.duration === 'string' ? parseDurationToSeconds(raw.duration) : null;
+  let endedAt = isValidDateString(raw.endedAt) ? new Date(raw.endedAt) : null;
+  if (seconds === null && endedAt) {
+    seconds = Math.max(0, Math.round((endedAt.getTime() - startedAt.getTime()) / 1000));
+    log.fixed.push(`${label}: unreadable duration ${JSON.stringify(raw.duration)} recomputed from timestamps`);
+  }
+  if (seconds === null) {
+    log.dropped.push(`${label}: unreadable duration ${JSON.stringify(raw.duration)}`);
+    return null;
+  }
+  if (!endedAt) {
+    endedAt = new Date(startedAt.getTime() + seconds * 1000);
+    log.fixed.push(`${label}: missing end time derived from duration`);
+  }
+  const duration = formatDuration(seconds);
+  if (typeof raw.duration === 'string' && parseDurationToSeconds(raw.duration) !== null && duration !== raw.duration) {
+    log.fixed.push(`${label}: duration "${raw.duration}" rewritten as ${duration}`);
+  }
+
+  let mode = raw.mode;
+  if (!TIMER_MODES.includes(mode)) {
+    mode = TimerMode.POMODORO;
+    log.fixed.push(`${label}: unknown timer mode set to Pomodoro`);
+  }
+
+  const entry: AppSessionLog = { startedAt: startedAt.toISOString(), endedAt: endedAt.toISOString(), mode, duration };
+  if (isNonEmptyString(raw.projectId)) entry.projectId = raw.projectId;
+  if (isNonEmptyString(raw.subtaskId)) entry.subtaskId = raw.subtaskId;
+  if (raw.isTimeEstimated === true) entry.isTimeEstimated = true;
+  if (raw.isPartial === true) {
+    entry.isPartial = true;
+    entry.countsTowardTarget = raw.countsTowardTarget === true;
+  }
+  if (Array.isArray(raw.interruptions) && raw.interruptions.length > 0) {
+    const interruptions = validateInterruptions(raw.interruptions, label, log);
+    if (interruptions.length > 0) entry.interruptions = interruptions;
+  }
+  return entry;
+};
+
+const validateDayNotes = (raw: unknown, log: ValidationLog): Record<string, string> => {
+  if (!isObject(raw)) {
+    log.dropped.push('Day notes: not an object, all notes ignored');
+    return {};
+  }
+  const notes: Record<string, string> = {};
+  Object.entries(raw).forEach(([date, note]) => {
+    if (!DATE_KEY_PATTERN.test(date)) log.dropped.push(`Day note for "${date}": unreadable date`);
+    else if (typeof note === 'string') notes[date] = note;
+    else log.dropped.push(`Day note for ${date}: not text`);
+  });
+  return notes;
+};
+
+const validateBusyBlocks = (raw: unknown, log: ValidationLog): BusyBlock[] => {
+  if (!Array.isArray(raw)) {
+    log.dropped.push('Busy blocks: not a list, all imported calendar events ignored');
+    return [];
+  }
+  const seenIds = new Set<string>();
+  const blocks: BusyBlock[] = [];
+  raw.forEach((item, index) => {
+    const label = `Busy block #${index + 1}${isObject(item) && isNonEmptyString(item.title) ? ` ("${item.title}")` : ''}`;
+    if (!isObject(item) || !isNonEmptyString(item.id) || !isNonEmptyString(item.source)) {
+      log.dropped.push(`${label}: missing id or source`);
+      return;
+    }
+    const isTime = item.allDay === true ? (value: unknown) => typeof value === 'string' && DATE_KEY_PATTERN.test(value) : isValidDateString;
+    if (!isTime(item.start) || !isTime(item.end) || item.end <= item.start) {
+      log.dropped.push(`${label}: unreadable start or end`);
+      return;
+    }
+    const key = `${item.source}|${item.id}`;
+    if (seenIds.has(key)) {
+      log.dropped.push(`${label}: duplicate of an earlier block`);
+      return;
+    }
+    seenIds.add(key);
+    const block: BusyBlock = { id: item.id, source: item.source, title: typeof item.title === 'string' ? item.title : '', start: item.start, end: item.end };
+    if (item.allDay === true) block.allDay = true;
+    blocks.push(block);
+  });
+  return blocks;
+};
+
+const validateDayAgendas = (raw: unknown, log: ValidationLog): Record<string, Record<string, string>> => {
+  if (!isObject(raw)) {
+    log.dropped.push('Day agendas: not an object, all agendas ignored');
+    return {};
+  }
+  const agendas: Record<string, Record<string, string>> = {};
+  Object.entries(raw).forEach(([date, slots]) => {
+    if (!DATE_KEY_PATTERN.test(date)) {
+      log.dropped.push(`Agenda for "${date}": unreadable date`);
+      return;
+    }
+    if (!isObject(slots)) {
+      log.dropped.push(`Agenda for ${date}: not an object`);
+      return;
+    }
+    agendas[date] = {};
+    Object.entries(slots).forEach(([hour, text]) => {
+      if (typeof text === 'string') agendas[date][hour] = text;
+      else log.dropped.push(`Agenda for ${date} ${hour}: not text`);
+    });
+  });
+  return agendas;
+};
+
+const validateCycle = (raw: unknown, log: ValidationLog): CycleStep[] => {
+  if (!Array.isArray(raw)) {
+    log.fixed.push('Settings: unreadable custom cycle replaced with the default rotation');
+    return [];
+  }
+  const steps: CycleStep[] = [];
+  raw.forEach((item, index) => {
+    if (!isObject(item) || !TIMER_MODES.includes(item.mode) || !isCount(item.minutes, 1)) {
+      log.dropped.push(`Settings: custom cycle step #${index + 1} is unreadable`);
+      return;
+    }
+    const step: CycleStep = { mode: item.mode, minutes: item.minutes };
+    if (isNonEmptyString(item.label)) step.label = item.label;
+    steps.push(step);
+  });
+  return steps;
+};
+
+const isHexColor = (value: unknown): value is string => typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value);
+
+const validateSettings = (raw: unknown, log: ValidationLog): AppSettings => {
+  if (!isObject(raw)) {
+    log.fixed.push('Settings: not an object, defaults used');
+    return DEFAULT_SETTINGS;
+  }
+  const settings: AppSettings = {
+    ...DEFAULT_SETTINGS,
+    durations: { ...DEFAULT_SETTINGS.durations },
+    colors: { ...DEFAULT_SETTINGS.colors },
+    sounds: { ...DEFAULT_SETTINGS.sounds },
+    shortcuts: { ...DEFAULT_SETTINGS.shortcuts }
+  };
+
+  (Object.keys(settings.durations) as (keyof AppSettings['durations'])[]).forEach(key => {
+    const value = raw.durations?.[key];
+    if (isCount(value, 1)) settings.durations[key] = value;
+    else log.fixed.push(`Settings: ${key} duration reset to ${settings.durations[key]} minutes`);
+  });
+  (Object.keys(settings.colors) as (keyof AppSettings['colors'])[]).forEach(key => {
+    const value = raw.colors?.[key];
+    if (isHexColor(value)) settings.colors[key] = value;
+    else log.fixed.push(`Settings: ${key} color reset to default`);
+  });
+  if (typeof raw.autoStartBreaks === 'boolean') settings.autoStartBreaks = raw.autoStartBreaks;
+  if (typeof raw.autoStartPomodoros === 'boolean') settings.autoStartPomodoros = raw.autoStartPomodoros;
+  if (isCount(raw.dailyPomodoroTarget, 1)) settings.dailyPomodoroTarget = raw.dailyPomodoroTarget;
+  else log.fixed.push(`Settings: daily pomodoro target reset to ${settings.dailyPomodoroTarget}`);
+  if (Array.isArray(raw.restDays)) {
+    const restDays = raw.restDays.filter((day: unknown): day is number => isCount(day, 0) && day <= 6);
+    settings.restDays = [...new Set(restDays)].sort((a, b) => a - b);
+    if (settings.restDays.length !== raw.restDays.length) log.fixed.push('Settings: invalid or repeated rest days removed');
+  } else {
+    log.fixed.push('Settings: rest days reset to none');
+  }
+  if (typeof raw.timeZone === 'string' && isValidTimeZone(raw.timeZone)) settings.timeZone = raw.timeZone;
+  else log.fixed.push(`Settings: unknown time zone ${JSON.stringify(raw.timeZone)} replaced with ${settings.timeZone}`);
+  if (isCount(raw.dayStartHour, 0) && raw.dayStartHour <= 12) settings.dayStartHour = raw.dayStartHour;
+  else log.fixed.push(`Settings: day start hour reset to ${settings.dayStartHour}:00`);
+  if (isCount(raw.partialSessionThreshold, 0) && raw.partialSessionThreshold <= 100) settings.partialSessionThreshold = raw.partialSessionThreshold;
+  else log.fixed.push(`Settings: partial session credit reset to ${settings.partialSessionThreshold}%`);
+  if (isCount(raw.longBreakInterval, 1)) settings.longBreakInterval = raw.longBreakInterval;
+  else log.fixed.push(`Settings: long break interval reset to ${settings.longBreakInterval}`);
+  settings.customCycle = validateCycle(raw.customCycle, log);
+  (Object.keys(settings.sounds) as (keyof AppSettings['sounds'])[]).forEach(key => {
+    const value = raw.sounds?.[key];
+    if (SOUND_IDS.includes(value)) settings.sounds[key] = value;
+    else log.fixed.push(`Settings: ${key} sound reset to ${settings.sounds[key]}`);
+  });
+  if (isCount(raw.volume, 0) && raw.volume <= 100) settings.volume = raw.volume;
+  else log.fixed.push(`Settings: volume reset to ${settings.volume}%`);
+  if (isCount(raw.warningMinutes, 0) && raw.warningMinutes <= 60) settings.warningMinutes = raw.warningMinutes;
+  else log.fixed.push(`Settings: end-of-step warning reset to ${settings.warningMinutes} minutes`);
+  if (typeof raw.notifications === 'boolean') settings.notifications = raw.notifications;
+  // A binding already taken by an earlier action is cleared so one key never runs two actions
+  const usedBindings = new Set<string>();
+  (Object.keys(settings.shortcuts) as ShortcutAction[]).forEach(key => {
+    const value = raw.shortcuts?.[key];
+    if (typeof value !== 'string') {
+      log.fixed.push(`Settings: ${key} shortcut reset to ${settings.shortcuts[key] || 'none'}`);
+    } else if (isReservedBinding(value)) {
+      settings.shortcuts[key] = '';
+      log.fixed.push(`Settings: ${key} shortcut ${value} is reserved for undo and redo, cleared`);
+    } else if (value && usedBindings.has(value)) {
+      settings.shortcuts[key] = '';
+      log.fixed.push(`Settings: ${key} shortcut ${value} is used twice, cleared`);
+    } else {
+      settings.shortcuts[key] = value;
+    }
+    if (settings.shortcuts[key]) usedBindings.add(settings.shortcuts[key]);
+  });
+
+  return settings;
+};
+
+// Upgrades raw backup content through the migration chain, then checks every record
+// against the current schema. Repairable records are fixed, broken ones dropped, and
+// data that cannot be trusted at all is rejected (data is null in that case).
+export const migrateAppData = (raw: unknown): { data: AppData | null; report: ImportReport } => {
+  const report: ImportReport = {
+    fromVersion: 0,
+    toVersion: CURRENT_DATA_VERSION,
+    migrations: [],
+    fixed: [],
+    dropped: [],
+    rejected: []
+  };
+
+  if (!isObject(raw)) {
+    report.rejected.push('File does not contain a Studybook backup object.');
+    return { data: null, report };
+  }
+  if (raw.version !== undefined && !isCount(raw.version, 0)) {
+    report.rejected.push(`Unknown backup version ${JSON.stringify(raw.version)}.`);
+    return { data: null, report };
+  }
+  report.fromVersion = raw.version ?? 0;
+  if (report.fromVersion > CURRENT_DATA_VERSION) {
+    report.rejected.push(`Backup was created by a newer version of Studybook (v${report.fromVersion}, this app reads up to v${CURRENT_DATA_VERSION}).`);
+    return { data: null, report };
+  }
+  if (raw.projects !== undefined && !Array.isArray(raw.projects)) report.rejected.push('"projects" is not a list.');
+  if (raw.appHistory !== undefined && !Array.isArray(raw.appHistory)) report.rejected.push('"appHistory" is not a list.');
+  if (raw.projects === undefined && raw.appHistory === undefined) report.rejected.push('Backup has neither projects nor session history.');
+  if (report.rejected.length > 0) return { data: null, report };
+
+  let migrated: RawData = raw;
+  MIGRATIONS.filter(m => m.version > report.fromVersion).forEach(m => {
+    migrated = m.migrate(migrated);
+    report.migrations.push(`v${m.version - 1} → v${m.version}: ${m.description}`);
+  });
+
+  const log: ValidationLog = { fixed: report.fixed, dropped: report.dropped };
+  const projectIds = new Set<string>();
+  const subtaskIds = new Set<string>();
+  const data: AppData = {
+    version: CURRENT_DATA_VERSION,
+    projects: (migrated.projects || [])
+      .map((p: unknown, i: number) => validateProject(p, i, projectIds, subtaskIds, log))
+      .filter((p: Project | null): p is Project => p !== null),
+    appHistory: (migrated.appHistory || [])
+      .map((l: unknown, i: number) => validateLog(l, i, log))
+      .filter((l: AppSessionLog | null): l is AppSessionLog => l !== null)
+  };
+  if (migrated.dayNotes !== undefined) data.dayNotes = validateDayNotes(migrated.dayNotes, log);
+  if (migrated.dayAgendas !== undefined) data.dayAgendas = validateDayAgendas(migrated.dayAgendas, log);
+  if (migrated.busyBlocks !== undefined) data.busyBlocks = validateBusyBlocks(migrated.busyBlocks, log);
+  if (migrated.settings !== undefined) data.settings = validateSettings(migrated.settings, log);
+
+  return { data, report };
+};
@@ -0,0 +1,56 @@
+// Registration of public/sw.js and the "new version available" flow. A new worker waits
+// until the user chooses to reload, so an update never interrupts a running timer.
+
+const SKIP_WAITING_MESSAGE = 'studybook-skip-waiting';
+const UPDATE_RELOAD_KEY = 'studybook-update-reload';
+const UPDATE_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+let waitingWorker: ServiceWorker | null = null;
+const updateListeners = new Set<() => void>();
+
+const setWaiting = (worker: ServiceWorker | null) => {
+  waitingWorker = worker;
+  if (worker) updateListeners.forEach(listener => listener());
+};
+
+export const registerServiceWorker = () => {
+  if (!('serviceWorker' in navigator)) return;
+  window.addEventListener('load', async () => {
+    try {
+      const registration = await navigator.serviceWorker.register('/sw.js');
+      // An update downloaded during an earlier visit is already waiting
+      if (registration.waiting && navigator.serviceWorker.controller) setWaiting(registration.waiting);
+      registration.addEventListener('updatefound', () => {
+        const worker = registration.installing;
+        worker?.addEventListener('statechange', () => {
+          // Without a controller this is the first install, not an update
+          if (worker.state === 'installed' && navigator.serviceWorker.controller) setWaiting(worker);
+        });
+      });
+      setInterval(() => registration.update().catch(() => {}), UPDATE_CHECK_INTERVAL_MS);
+    } catch (err) {
+      console.error("Service worker registration failed", err);
+    }
+  });
+};
+
+export const subscribeToUpdates = (listener: () => void): (() => void) => {
+  updateListeners.add(listener);
+  if (waitingWorker) listener();
+  return () => { updateListeners.delete(listener); };
+};
+
+// Switches to the waiting worker and reloads once it has taken over. Save everything first.
+export const applyUpdate = () => {
+  sessionStorage.setItem(UPDATE_RELOAD_KEY, '1');
+  if (!waitingWorker) return window.location.reload();
+  navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), { once: true });
+  waitingWorker.postMessage({ type: SKIP_WAITING_MESSAGE });
+};
+
+// Read once at startup: whether this page load was started by applyUpdate,
+// so the timer can carry on untouched instead of asking to be recovered
+const startedByUpdate = sessionStorage.getItem(UPDATE_RELOAD_KEY) === '1';
+sessionStorage.removeItem(UPDATE_RELOAD_KEY);
+
+export const wasReloadedForUpdate = (): boolean => startedByUpdate;
@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SHORTCUTS, getEventBinding, isReservedBinding } from './shortcuts';
+
+const press = (key: string, modifiers: { ctrlKey?: boolean; metaKey?: boolean; altKey?: boolean; shiftKey?: boolean } = {}) =>
+  getEventBinding({ key, ctrlKey: false, metaKey: false, altKey: false, shiftKey: false, ...modifiers })!;
+
+describe('isReservedBinding', () => {
+  it('refuses the undo and redo combinations', () => {
+    expect(isReservedBinding(press('z', { ctrlKey: true }))).toBe(true);
+    expect(isReservedBinding(press('Z', { ctrlKey: true, shiftKey: true }))).toBe(true);
+    expect(isReservedBinding(press('y', { metaKey: true }))).toBe(true);
+    expect(isReservedBinding(press('z', { ctrlKey: true, altKey: true }))).toBe(true);
+  });
+
+  it('allows the same keys without Ctrl and the defaults', () => {
+    expect(isReservedBinding(press('z'))).toBe(false);
+    expect(isReservedBinding(press('y', { altKey: true }))).toBe(false);
+    Object.values(DEFAULT_SHORTCUTS).forEach(binding => expect(isReservedBinding(binding)).toBe(false));
+  });
+});
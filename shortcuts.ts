@@ -0,0 +1,101 @@
+import { ShortcutAction } from './types';
+
+export const SHORTCUT_ACTIONS: { action: ShortcutAction; label: string }[] = [
+  { action: 'toggleTimer', label: 'Start / pause timer' },
+  { action: 'skipTimer', label: 'Skip to next step' },
+  { action: 'resetTimer', label: 'Reset timer' },
+  { action: 'focusMode', label: 'Switch to Pomodoro' },
+  { action: 'shortBreakMode', label: 'Switch to Short Break' },
+  { action: 'longBreakMode', label: 'Switch to Long Break' },
+  { action: 'openTimer', label: 'Open Timer' },
+  { action: 'openPerformance', label: 'Open Performance' },
+  { action: 'openAgenda', label: 'Open Agenda' },
+  { action: 'openSettings', label: 'Open Settings' },
+  { action: 'newProject', label: 'New project' },
+  { action: 'newSubtask', label: 'New subtask' },
+  { action: 'nextSubtask', label: 'Select next subtask' },
+  { action: 'previousSubtask', label: 'Select previous subtask' },
+  { action: 'commandPalette', label: 'Command palette' }
+];
+
+export const DEFAULT_SHORTCUTS: Record<ShortcutAction, string> = {
+  toggleTimer: 'Space',
+  skipTimer: 's',
+  resetTimer: 'r',
+  focusMode: '1',
+  shortBreakMode: '2',
+  longBreakMode: '3',
+  openTimer: 't',
+  openPerformance: 'p',
+  openAgenda: 'a',
+  openSettings: ',',
+  newProject: 'Shift+n',
+  newSubtask: 'n',
+  nextSubtask: 'j',
+  previousSubtask: 'k',
+  commandPalette: 'Ctrl+k'
+};
+
+const MODIFIER_KEYS = ['Control', 'Meta', 'Alt', 'Shift'];
+
+// Bindings are stored as "Ctrl+Shift+k": modifiers in a fixed order, then the key.
+// Cmd on macOS is folded into Ctrl so the same binding works on every platform.
+export const getEventBinding = (e: Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'>): string | null => {
+  if (MODIFIER_KEYS.includes(e.key)) return null;
+  const key = e.key === ' ' ? 'Space' : e.key.length === 1 ? e.key.toLowerCase() : e.key;
+  const parts: string[] = [];
+  if (e.ctrlKey || e.metaKey) parts.push('Ctrl');
+  if (e.altKey) parts.push('Alt');
+  // Shift is part of printable symbols like "?" already, so only letters and named keys record it
+  if (e.shiftKey && (key.length > 1 || key !== key.toUpperCase())) parts.push('Shift');
+  parts.push(key);
+  return parts.join('+');
+};
+
+const isMac = () => typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+export const formatBinding = (binding: string): string =>
+  binding
+    .split('+')
+    .map(part => part === 'Ctrl' && isMac() ? '⌘' : part.length === 1 ? part.toUpperCase() : part)
+    .join(isMac() ? '' : '+');
+
+// Plain-key bindings must not fire while the user is typing; ones with Ctrl/Alt still do
+export const isTypingTarget = (target: EventTarget | null): boolean => {
+  const el = target as HTMLElement | null;
+  return !!el && (el.tagName === 'INPUT' || el.tagName === 'TEXTAREA' || el.tagName === 'SELECT' || el.isContentEditable);
+};
+
+// The undo/redo listener takes Ctrl+Z, Ctrl+Shift+Z and Ctrl+Y (with or without other
+// modifiers), so no action may be bound to them
+export const isReservedBinding = (binding: string): boolean => {
+  const parts = binding.split('+');
+  return parts[0] === 'Ctrl' && ['z', 'y'].includes(parts[parts.length - 1]);
+};
+
+export const hasModifier = (binding: string): boolean => binding.startsWith('Ctrl+') || binding.startsWith('Alt+');
+
+export const findShortcutAction = (shortcuts: Record<ShortcutAction, string>, binding: string): ShortcutAction | null =>
+  (Object.keys(shortcuts) as ShortcutAction[]).find(action => shortcuts[action] === binding) ?? null;
+
+// Subsequence match: every query character must appear in order. Consecutive runs and
+// matches at word starts score higher; null means no match.
+export const fuzzyScore = (query: string, text: string): number | null => {
+  const q = query.trim().toLowerCase();
+  if (!q) return 0;
+  const t = text.toLowerCase();
+  let score = 0;
+  let run = 0;
+  let ti = 0;
+  for (const ch of q) {
+    if (ch === ' ') continue;
+    const found = t.indexOf(ch, ti);
+    if (found === -1) return null;
+    run = found === ti ? run + 1 : 1;
+    score += run * 2;
+    if (found === 0 || /[\s\-_/›]/.test(t[found - 1])) score += 3;
+    score -= Math.min(found - ti, 5) * 0.5;
+    ti = found + 1;
+  }
+  return score;
+};
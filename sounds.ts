@@ -0,0 +1,81 @@
+import { SoundId } from './types';
+
+interface Tone {
+  frequency: number; // Hz
+  start: number; // seconds after the sound begins
+  duration: number; // seconds
+  type?: OscillatorType;
+}
+
+// Every sound is synthesized with Web Audio, so nothing has to be fetched and alerts work offline
+const SOUNDS: Record<Exclude<SoundId, 'none'>, Tone[]> = {
+  chime: [
+    { frequency: 880, start: 0, duration: 0.6 },
+    { frequency: 1318.5, start: 0.15, duration: 0.9 }
+  ],
+  bell: [
+    { frequency: 523.25, start: 0, duration: 1.6 },
+    { frequency: 1046.5, start: 0, duration: 1.1 },
+    { frequency: 1568, start: 0, duration: 0.7 }
+  ],
+  digital: [
+    { frequency: 1000, start: 0, duration: 0.1, type: 'square' },
+    { frequency: 1000, start: 0.2, duration: 0.1, type: 'square' },
+    { frequency: 1000, start: 0.4, duration: 0.1, type: 'square' }
+  ],
+  soft: [
+    { frequency: 440, start: 0, duration: 0.8, type: 'triangle' },
+    { frequency: 554.37, start: 0.25, duration: 0.9, type: 'triangle' }
+  ]
+};
+
+export const SOUND_OPTIONS: { id: SoundId; label: string }[] = [
+  { id: 'chime', label: 'Chime' },
+  { id: 'bell', label: 'Bell' },
+  { id: 'digital', label: 'Digital' },
+  { id: 'soft', label: 'Soft' },
+  { id: 'none', label: 'None' }
+];
+
+export const SOUND_IDS = SOUND_OPTIONS.map(option => option.id);
+
+let audioContext: AudioContext | null = null;
+
+const getAudioContext = (): AudioContext | null => {
+  if (typeof window === 'undefined' || !window.AudioContext) return null;
+  if (!audioContext) audioContext = new AudioContext();
+  return audioContext;
+};
+
+// Browsers keep audio suspended until a user gesture, so call this from one (e.g. Start)
+// to make sure the sound at the end of the step can play in a background tab.
+export const unlockAudio = () => {
+  const context = getAudioContext();
+  if (context?.state === 'suspended') context.resume().catch(() => {});
+};
+
+export const playSound = (id: SoundId, volume: number) => {
+  const context = getAudioContext();
+  if (id === 'none' || volume <= 0 || !context) return;
+
+  const begin = context.currentTime + 0.02;
+  const master = context.createGain();
+  master.gain.value = Math.min(1, volume / 100);
+  master.connect(context.destination);
+
+  SOUNDS[id].forEach(tone => {
+    const oscillator = context.createOscillator();
+    const envelope = context.createGain();
+    const start = begin + tone.start;
+    const end = start + tone.duration;
+    oscillator.type = tone.type || 'sine';
+    oscillator.frequency.value = tone.frequency;
+    // Short attack and exponential decay avoid clicks at the edges
+    envelope.gain.setValueAtTime(0.0001, start);
+    envelope.gain.exponentialRampToValueAtTime(0.4, start + 0.01);
+    envelope.gain.exponentialRampToValueAtTime(0.0001, end);
+    oscillator.connect(envelope).connect(master);
+    oscillator.start(start);
+    oscillator.stop(end + 0.05);
+  });
+};
@@ -0,0 +1,59 @@
+import { AppData, TimerState } from './types';
+
+const DB_NAME = 'studybook';
+const DB_VERSION = 1;
+const STORE_NAME = 'state';
+const APP_DATA_KEY = 'appData';
+const TIMER_STATE_KEY = 'timerState';
+
+export type SaveStatus = 'idle' | 'saving' | 'saved' | 'failed';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) db.createObjectStore(STORE_NAME);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }).catch((err) => {
+    // Allow a later call to retry instead of caching the failure forever
+    dbPromise = null;
+    throw err;
+  });
+  return dbPromise;
+};
+
+export const readRecord = async <T>(key: string): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return new Promise<T | undefined>((resolve, reject) => {
+    const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(key);
+    request.onsuccess = () => resolve(request.result as T | undefined);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Each write is a single put inside its own transaction, so a crash mid-write leaves
+// the previous record intact rather than a half-written one.
+export const writeRecord = async (key: string, value: unknown): Promise<void> => {
+  const db = await openDatabase();
+  return new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, 'readwrite', { durability: 'strict' });
+    tx.objectStore(STORE_NAME).put(value, key);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const loadAppData = (): Promise<AppData | undefined> => readRecord<AppData>(APP_DATA_KEY);
+
+export const saveAppData = (data: AppData): Promise<void> => writeRecord(APP_DATA_KEY, data);
+
+export const loadTimerState = (): Promise<TimerState | undefined> => readRecord<TimerState>(TIMER_STATE_KEY);
+
+export const saveTimerState = (state: TimerState): Promise<void> => writeRecord(TIMER_STATE_KEY, state);
@@ -0,0 +1,74 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { AppSessionLog, TimerMode } from './types';
+import { DEFAULT_SETTINGS } from './schema';
+import { SyncState, TabSync, createTabSync } from './tabSync';
+
+const session = (startedAt: string): AppSessionLog => ({
+  mode: TimerMode.POMODORO,
+  startedAt,
+  endedAt: new Date(new Date(startedAt).getTime() + 25 * 60000).toISOString(),
+  duration: '25:00'
+});
+
+const initial: SyncState = {
+  projects: [],
+  appHistory: [session('2026-10-19T08:00:00.000Z')],
+  dayNotes: {},
+  dayAgendas: {},
+  busyBlocks: [],
+  settings: DEFAULT_SETTINGS,
+  timer: { cycleStep: 0, run: null, selectedProjectId: null, activeSubtaskId: null }
+};
+
+// A tab's state as the app holds it: remote changes are applied, then published back as the
+// app's effect would
+const openTab = () => {
+  const tab: { state: SyncState; sync: TabSync | null } = { state: initial, sync: null };
+  tab.sync = createTabSync(initial, (changes) => {
+    tab.state = { ...tab.state, ...changes };
+    tab.sync?.publish(tab.state);
+  });
+  return tab;
+};
+
+const settle = () => new Promise(resolve => setTimeout(resolve, 50));
+
+let tabs: ReturnType<typeof openTab>[] = [];
+afterEach(() => {
+  tabs.forEach(tab => tab.sync?.close());
+  tabs = [];
+});
+
+describe('session history across tabs', () => {
+  it('keeps sessions two tabs log at the same moment', async () => {
+    tabs = [openTab(), openTab()];
+    await settle();
+    const [a, b] = tabs;
+
+    a.state = { ...a.state, appHistory: [...a.state.appHistory, session('2026-10-19T09:00:00.000Z')] };
+    b.state = { ...b.state, appHistory: [...b.state.appHistory, session('2026-10-19T09:01:00.000Z')] };
+    a.sync!.publish(a.state);
+    b.sync!.publish(b.state);
+    await settle();
+
+    const starts = (tab: typeof a) => tab.state.appHistory.map(log => log.startedAt).sort();
+    expect(starts(a)).toHaveLength(3);
+    expect(starts(a)).toEqual(starts(b));
+  });
+
+  it('still lets a later write remove a session', async () => {
+    tabs = [openTab(), openTab()];
+    await settle();
+    const [a, b] = tabs;
+
+    a.state = { ...a.state, appHistory: [...a.state.appHistory, session('2026-10-19T09:00:00.000Z')] };
+    a.sync!.publish(a.state);
+    await settle();
+    expect(b.state.appHistory).toHaveLength(2);
+
+    b.state = { ...b.state, appHistory: b.state.appHistory.slice(0, 1) };
+    b.sync!.publish(b.state);
+    await settle();
+    expect(a.state.appHistory).toHaveLength(1);
+  });
+});
@@ -0,0 +1,160 @@
+import { AppSessionLog, TimerState } from './types';
+import { DataSnapshot } from './undo';
+import { mergeLogs } from './merge';
+
+// Keeps every open tab on the same data. Each part of the state ("slice") is replicated
+// last-writer-wins: a change carries a revision one above the highest seen for that slice,
+// and equal revisions are settled by tab id, so tabs that edit at the same moment still
+// end up agreeing. The timer is one more slice; only the tab holding the timer lock acts
+// on it automatically (completions, warnings, persistence), the rest mirror it.
+// Session history is the exception to last-writer-wins: sessions a tab logged that a
+// concurrent write from another tab doesn't have yet are added back and sent again, so
+// two tabs finishing a session at the same moment both keep it.
+
+const CHANNEL_NAME = 'studybook-sync';
+const TIMER_LOCK_NAME = 'studybook-timer';
+
+export type SyncedTimer = Omit<TimerState, 'savedAt'>;
+export type SyncState = DataSnapshot & { timer: SyncedTimer };
+export type SyncSlice = keyof SyncState;
+
+interface Clock {
+  revision: number;
+  writer: string; // Tab id; '' until the slice has been written by anyone
+}
+
+type SyncMessage =
+  | { type: 'hello'; from: string }
+  | { type: 'state'; from: string; slices: Partial<Record<SyncSlice, { value: unknown; clock: Clock }>> };
+
+export interface TabSync {
+  publish: (state: SyncState) => void; // Broadcasts whichever slices differ from the last known state
+  hasReceived: (slice: SyncSlice) => boolean;
+  close: () => void;
+}
+
+const SLICES: SyncSlice[] = ['projects', 'appHistory', 'dayNotes', 'dayAgendas', 'busyBlocks', 'settings', 'timer'];
+
+const isSameSlice = (slice: SyncSlice, a: SyncState, b: SyncState): boolean => {
+  if (slice !== 'timer') return a[slice] === b[slice];
+  return a.timer.cycleStep === b.timer.cycleStep
+    && a.timer.run === b.timer.run
+    && a.timer.selectedProjectId === b.timer.selectedProjectId
+    && a.timer.activeSubtaskId === b.timer.activeSubtaskId;
+};
+
+const isNewer = (incoming: Clock, current: Clock): boolean =>
+  incoming.revision > current.revision || (incoming.revision === current.revision && incoming.writer > current.writer);
+
+// Logs in `next` beyond those already in `base`, counting repeats
+const getAddedLogs = (base: AppSessionLog[], next: AppSessionLog[]): AppSessionLog[] => mergeLogs(base, next).slice(base.length);
+
+// Returns null where BroadcastChannel is missing; the app then behaves as a single tab.
+// `initial` must be the state the tab currently shows, so it isn't mistaken for an edit.
+export const createTabSync = (initial: SyncState, onRemoteChange: (changes: Partial<SyncState>) => void): TabSync | null => {
+  if (typeof BroadcastChannel === 'undefined') return null;
+
+  const tabId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  const clocks = Object.fromEntries(SLICES.map(slice => [slice, { revision: 0, writer: '' }])) as Record<SyncSlice, Clock>;
+  const received = new Set<SyncSlice>();
+  let known = initial;
+  // Sessions this tab appended and published that no other tab has confirmed yet, and the
+  // revision they went out with; a write above that revision was made after seeing them
+  let pendingLogs: AppSessionLog[] = [];
+  let pendingRevision = 0;
+
+  const post = (message: SyncMessage) => {
+    try {
+      channel.postMessage(message);
+    } catch (err) {
+      console.error("Failed to sync with other tabs", err);
+    }
+  };
+
+  const sendSlices = (slices: SyncSlice[]) => {
+    if (slices.length === 0) return;
+    post({ type: 'state', from: tabId, slices: Object.fromEntries(slices.map(slice => [slice, { value: known[slice], clock: clocks[slice] }])) });
+  };
+
+  channel.onmessage = (event: MessageEvent<SyncMessage>) => {
+    const message = event.data;
+    if (!message || message.from === tabId) return;
+    // A new tab asks for the live state, which may be ahead of what has been saved to disk
+    if (message.type === 'hello') return sendSlices(SLICES);
+    if (message.type !== 'state') return;
+
+    const changes: Partial<SyncState> = {};
+    let resendHistory = false;
+    (Object.keys(message.slices) as SyncSlice[]).forEach(slice => {
+      const entry = message.slices[slice];
+      if (!entry || !SLICES.includes(slice) || !isNewer(entry.clock, clocks[slice])) return;
+      clocks[slice] = entry.clock;
+      received.add(slice);
+      let value = entry.value;
+      if (slice === 'appHistory' && pendingLogs.length > 0) {
+        if (entry.clock.revision > pendingRevision) {
+          pendingLogs = [];
+        } else {
+          // Written without this tab's latest sessions: keep them on top of it
+          const incoming = value as AppSessionLog[];
+          const merged = mergeLogs(incoming, pendingLogs);
+          resendHistory = merged.length > incoming.length;
+          value = merged;
+        }
+      }
+      (changes as Record<SyncSlice, unknown>)[slice] = value;
+    });
+    if (Object.keys(changes).length === 0) return;
+    known = { ...known, ...changes };
+    onRemoteChange(changes);
+    if (resendHistory) {
+      clocks.appHistory = { revision: clocks.appHistory.revision + 1, writer: tabId };
+      pendingRevision = clocks.appHistory.revision;
+      sendSlices(['appHistory']);
+    }
+  };
+
+  post({ type: 'hello', from: tabId });
+
+  return {
+    publish: (state) => {
+      const changed = SLICES.filter(slice => !isSameSlice(slice, state, known));
+      if (changed.includes('appHistory')) {
+        // Sessions removed here since (an undo, say) are no longer waiting to be kept
+        const removed = getAddedLogs(state.appHistory, known.appHistory);
+        pendingLogs = [...getAddedLogs(removed, pendingLogs), ...getAddedLogs(known.appHistory, state.appHistory)];
+        pendingRevision = clocks.appHistory.revision + 1;
+      }
+      known = state;
+      changed.forEach(slice => { clocks[slice] = { revision: clocks[slice].revision + 1, writer: tabId }; });
+      sendSlices(changed);
+    },
+    hasReceived: (slice) => received.has(slice),
+    close: () => channel.close()
+  };
+};
+
+// Only one tab at a time holds the timer lock; when it closes, the next waiting tab gets it.
+// Without the Web Locks API every tab runs its own timer, as before.
+export const claimTimerOwnership = (onAcquired: () => void): (() => void) => {
+  if (typeof navigator === 'undefined' || !navigator.locks) {
+    onAcquired();
+    return () => {};
+  }
+  const controller = new AbortController();
+  let release: () => void = () => {};
+  navigator.locks
+    .request(TIMER_LOCK_NAME, { signal: controller.signal }, () => {
+      onAcquired();
+      // Hold the lock until this tab goes away or gives it up
+      return new Promise<void>(resolve => { release = resolve; });
+    })
+    .catch((err) => {
+      if (err?.name !== 'AbortError') console.error("Failed to claim the timer", err);
+    });
+  return () => {
+    controller.abort();
+    release();
+  };
+};
@@ -0,0 +1,93 @@
+import { AppSettings, CycleStep, Interruption, InterruptionType, TimerMode, TimerRun } from './types';
+
+// Pure helpers around TimerRun. Nothing here counts ticks: every figure is computed from
+// the stored start timestamp and the pause ledger, so throttled background tabs can't drift.
+
+// The sequence the timer walks through. Without a custom cycle this is the classic rotation:
+// pomodoros separated by short breaks, with a long break after every `longBreakInterval`.
+// `focusMinutes` is a per-project pomodoro length and only applies to that classic rotation.
+export const getCycle = (settings: Pick<AppSettings, 'durations' | 'longBreakInterval' | 'customCycle'>, focusMinutes?: number): CycleStep[] => {
+  if (settings.customCycle.length > 0) return settings.customCycle;
+  const steps: CycleStep[] = [];
+  for (let i = 1; i <= settings.longBreakInterval; i++) {
+    steps.push({ mode: TimerMode.POMODORO, minutes: focusMinutes ?? settings.durations.pomodoro });
+    steps.push(i === settings.longBreakInterval
+      ? { mode: TimerMode.LONG_BREAK, minutes: settings.durations.longBreak }
+      : { mode: TimerMode.SHORT_BREAK, minutes: settings.durations.shortBreak });
+  }
+  return steps;
+};
+
+export const getStepDurationMs = (step: CycleStep): number => step.minutes * 60 * 1000;
+
+// Average focus step length, used to turn a number of sessions into time
+export const getFocusMinutes = (cycle: CycleStep[]): number => {
+  const focus = cycle.filter(step => step.mode === TimerMode.POMODORO);
+  return focus.length > 0 ? focus.reduce((sum, step) => sum + step.minutes, 0) / focus.length : 0;
+};
+
+export const startRun = (mode: TimerMode, durationMs: number, now: number = Date.now()): TimerRun => ({
+  mode,
+  durationMs,
+  startedAt: now,
+  pauses: []
+});
+
+export const isRunPaused = (run: TimerRun): boolean => {
+  const last = run.pauses[run.pauses.length - 1];
+  return !!last && last.resumedAt === undefined;
+};
+
+export const pauseRun = (run: TimerRun, now: number = Date.now(), type?: InterruptionType): TimerRun => {
+  if (isRunPaused(run)) return run;
+  return { ...run, pauses: [...run.pauses, type ? { pausedAt: now, type } : { pausedAt: now }] };
+};
+
+// Updates the type and reason of the most recent interruption
+export const labelLastPause = (run: TimerRun, type: InterruptionType, reason: string): TimerRun => {
+  if (run.pauses.length === 0) return run;
+  const pauses = run.pauses.slice();
+  pauses[pauses.length - 1] = { ...pauses[pauses.length - 1], type, reason };
+  return { ...run, pauses };
+};
+
+export const resumeRun = (run: TimerRun, now: number = Date.now()): TimerRun => {
+  if (!isRunPaused(run)) return run;
+  const pauses = run.pauses.slice();
+  pauses[pauses.length - 1] = { ...pauses[pauses.length - 1], resumedAt: now };
+  return { ...run, pauses };
+};
+
+export const getPausedMs = (run: TimerRun, now: number = Date.now()): number =>
+  run.pauses.reduce((sum, p) => sum + ((p.resumedAt ?? now) - p.pausedAt), 0);
+
+export const getElapsedMs = (run: TimerRun, now: number = Date.now()): number =>
+  Math.min(run.durationMs, Math.max(0, now - run.startedAt - getPausedMs(run, now)));
+
+export const getRemainingMs = (run: TimerRun, now: number = Date.now()): number =>
+  run.durationMs - getElapsedMs(run, now);
+
+export const isRunComplete = (run: TimerRun, now: number = Date.now()): boolean =>
+  !isRunPaused(run) && getRemainingMs(run, now) <= 0;
+
+// The moment the countdown hit zero (or will, if it keeps running). Used so a session that
+// finished while the tab was asleep is logged with its real end time, not the wake-up time.
+export const getCompletionTime = (run: TimerRun, now: number = Date.now()): number =>
+  run.startedAt + getPausedMs(run, now) + run.durationMs;
+
+// Counts [from, to) as paused time, e.g. the stretch while the app was closed
+export const excludeInterval = (run: TimerRun, from: number, to: number): TimerRun => {
+  if (isRunPaused(run) || to <= from) return run;
+  return { ...run, pauses: [...run.pauses, { pausedAt: from, resumedAt: to }] };
+};
+
+// Interruptions to attach to the session log; pauses without a type weren't taken by the user
+export const getInterruptions = (run: TimerRun, endedAt: number): Interruption[] =>
+  run.pauses
+    .filter(p => p.type && p.pausedAt < endedAt)
+    .map(p => {
+      const entry: Interruption = { pausedAt: new Date(p.pausedAt).toISOString(), type: p.type as InterruptionType };
+      if (p.resumedAt !== undefined && p.resumedAt <= endedAt) entry.resumedAt = new Date(p.resumedAt).toISOString();
+      if (p.reason?.trim()) entry.reason = p.reason.trim();
+      return entry;
+    });
@@ -22,13 +22,44 @@ export interface Project {
   isDaily?: boolean;
   recurrenceEndDate?: string;
   category?: ProjectCategory;
+  pomodoroMinutes?: number; // Focus length for this project's sessions, instead of the Settings default
+}
+
+export type InterruptionType = 'internal' | 'external';
+
+export interface Interruption {
+  pausedAt: string; // ISO timestamp
+  resumedAt?: string; // Missing when the session ended while paused
+  type: InterruptionType;
+  reason?: string;
 }
 
 export interface AppSessionLog {
-  date: string;
+  startedAt: string; // ISO timestamp
+  endedAt: string; // ISO timestamp
+  mode: TimerMode;
   duration: string; // Format hh:mm:ss
   projectId?: string;
   subtaskId?: string;
+  isTimeEstimated?: boolean; // Migrated from a date-only log, so the time of day is a placeholder
+  isPartial?: boolean; // Cut short by skip or reset; duration is the time actually focused
+  countsTowardTarget?: boolean; // Partial sessions only: whether it reached the credit threshold when logged
+  interruptions?: Interruption[]; // Pauses taken during a focus session
+}
+
+export type SoundId = 'chime' | 'bell' | 'digital' | 'soft' | 'none';
+
+export type ShortcutAction =
+  | 'toggleTimer' | 'skipTimer' | 'resetTimer'
+  | 'focusMode' | 'shortBreakMode' | 'longBreakMode'
+  | 'openTimer' | 'openPerformance' | 'openAgenda' | 'openSettings'
+  | 'newProject' | 'newSubtask' | 'nextSubtask' | 'previousSubtask'
+  | 'commandPalette';
+
+export interface CycleStep {
+  mode: TimerMode; // Pomodoro steps are focus time and get logged; the others are breaks
+  minutes: number;
+  label?: string; // Shown on the timer, e.g. "Review"
 }
 
 export interface AppSettings {
@@ -45,25 +76,79 @@ export interface AppSettings {
   autoStartBreaks: boolean;
   autoStartPomodoros: boolean;
   dailyPomodoroTarget: number;
+  restDays: number[]; // Weekdays (0 = Sunday) that don't break a streak when the target is missed
+  timeZone: string; // IANA zone used to decide which day a moment belongs to
+  dayStartHour: number; // 0-12; sessions before this hour count toward the previous day
+  partialSessionThreshold: number; // 0-100; percent of a pomodoro a partial session needs to count
+  longBreakInterval: number; // Pomodoros per cycle before the long break
+  customCycle: CycleStep[]; // When non-empty, replaces the pomodoro/break rotation built from durations
+  sounds: {
+    focusEnd: SoundId;
+    breakEnd: SoundId;
+    warning: SoundId;
+  };
+  volume: number; // 0-100
+  warningMinutes: number; // Warn this long before a step ends; 0 turns the warning off
+  notifications: boolean; // Desktop notifications, only effective once permission is granted
+  shortcuts: Record<ShortcutAction, string>; // Key binding per action, e.g. "Ctrl+K"; empty disables it
+}
+
+// An event imported from an external calendar: shown read-only and counted against capacity
+export interface BusyBlock {
+  id: string; // Event UID; recurring events add the occurrence start
+  source: string; // File it came from; importing that file again replaces its blocks
+  title: string;
+  start: string; // ISO timestamp, or day key (YYYY-MM-DD) for all-day events
+  end: string; // Exclusive; ISO timestamp, or day key for all-day events
+  allDay?: boolean;
 }
 
 export interface AppData {
+  version: number; // Schema version, upgraded on import by the migration chain in schema.ts
   projects: Project[];
   appHistory: AppSessionLog[];
-  dayNotes?: Record<string, string>; // date string -> general description
-  dayAgendas?: Record<string, Record<string, string>>; // date string -> { "08:00": "text", ... }
+  dayNotes?: Record<string, string>; // day key (YYYY-MM-DD) -> general description
+  dayAgendas?: Record<string, Record<string, string>>; // day key (YYYY-MM-DD) -> { "08:00": "text", ... }
+  busyBlocks?: BusyBlock[];
   settings?: AppSettings;
 }
 
+export interface ImportReport {
+  fromVersion: number;
+  toVersion: number;
+  migrations: string[]; // Descriptions of the migration steps that ran
+  fixed: string[];
+  dropped: string[];
+  rejected: string[]; // Non-empty means nothing was imported
+}
+
 export enum TimerMode {
   POMODORO = 'pomodoro',
   SHORT_BREAK = 'short_break',
   LONG_BREAK = 'long_break',
 }
 
-export interface TimerState {
+export interface PauseEntry {
+  pausedAt: number; // epoch ms
+  resumedAt?: number; // Missing while the pause is still open
+  // Set for pauses the user took during focus; gaps bridged after a reload have none
+  type?: InterruptionType;
+  reason?: string;
+}
+
+// A running countdown described by wall-clock facts only; remaining time is always derived
+export interface TimerRun {
   mode: TimerMode;
-  timeLeft: number; // in seconds
-  isActive: boolean;
-  sessionsCompletedSinceStart: number;
+  durationMs: number;
+  startedAt: number; // epoch ms
+  pauses: PauseEntry[];
+}
+
+// Live timer state, stored apart from AppData so a reload or crash can pick the session back up
+export interface TimerState {
+  cycleStep: number; // Position in the timer cycle
+  run: TimerRun | null;
+  selectedProjectId: string | null;
+  activeSubtaskId: string | null;
+  savedAt: number; // epoch ms, refreshed while the timer runs
 }
\ No newline at end of file
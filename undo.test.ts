@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { AppSessionLog, Project, TimerMode } from './types';
+import { DEFAULT_SETTINGS } from './schema';
+import { DataSnapshot, EMPTY_COMMAND_HISTORY, rebaseCommandHistory, recordCommand, redoCommand, undoCommand } from './undo';
+
+const project = (id: string, name: string): Project => ({ id, name, subtasks: [], createdAt: '2026-10-01T09:00:00.000Z' });
+
+const session = (startedAt: string): AppSessionLog => ({
+  mode: TimerMode.POMODORO,
+  startedAt,
+  endedAt: new Date(new Date(startedAt).getTime() + 25 * 60000).toISOString(),
+  duration: '25:00'
+});
+
+const snapshot = (changes: Partial<DataSnapshot> = {}): DataSnapshot => ({
+  projects: [],
+  appHistory: [],
+  dayNotes: {},
+  dayAgendas: {},
+  busyBlocks: [],
+  settings: DEFAULT_SETTINGS,
+  ...changes
+});
+
+describe('undo after a change from another tab', () => {
+  it('keeps the remote change and reverts only the local edit', () => {
+    // Tab A renames a project
+    const before = snapshot({ projects: [project('p1', 'Thesis')] });
+    let history = recordCommand(EMPTY_COMMAND_HISTORY, 'Project edited', before);
+    let current = snapshot({ projects: [project('p1', 'Thesis draft')] });
+
+    // Tab B logs a session, which tab A receives
+    const remote = { appHistory: [session('2026-10-19T09:00:00.000Z')] };
+    history = rebaseCommandHistory(history, remote);
+    current = { ...current, ...remote };
+
+    const undone = undoCommand(history, current);
+    expect(undone).not.toBeNull();
+    expect(undone!.entry.snapshot.projects[0].name).toBe('Thesis');
+    expect(undone!.entry.snapshot.appHistory).toEqual([session('2026-10-19T09:00:00.000Z')]);
+  });
+
+  it('does not bring back replaced data on redo either', () => {
+    const before = snapshot({ dayNotes: { '2026-10-19': 'a' } });
+    const current = snapshot({ dayNotes: { '2026-10-19': 'ab' } });
+    const undone = undoCommand(recordCommand(EMPTY_COMMAND_HISTORY, 'Note edited', before), current)!;
+
+    const remote = { projects: [project('p2', 'From tab B')] };
+    const history = rebaseCommandHistory(undone.history, remote);
+    const redone = redoCommand(history, { ...undone.entry.snapshot, ...remote });
+    expect(redone!.entry.snapshot.dayNotes['2026-10-19']).toBe('ab');
+    expect(redone!.entry.snapshot.projects).toEqual(remote.projects);
+  });
+});
@@ -0,0 +1,66 @@
+import { AppData } from './types';
+
+// Everything a user action can change; snapshots share references with React state,
+// so keeping many of them around is cheap.
+export type DataSnapshot = Required<Omit<AppData, 'version'>>;
+
+export interface CommandEntry {
+  label: string;
+  snapshot: DataSnapshot; // State to restore when this entry is applied
+  coalesceKey?: string;
+  at: number;
+}
+
+export interface CommandHistory {
+  past: CommandEntry[];
+  future: CommandEntry[];
+}
+
+const MAX_UNDO_STEPS = 100;
+const COALESCE_WINDOW_MS = 2000;
+
+export const EMPTY_COMMAND_HISTORY: CommandHistory = { past: [], future: [] };
+
+// Records the state as it was before a mutation. Consecutive edits sharing a coalesceKey
+// (typing into the same note, nudging the same counter) collapse into one undo step.
+export const recordCommand = (history: CommandHistory, label: string, before: DataSnapshot, coalesceKey?: string, now: number = Date.now()): CommandHistory => {
+  const last = history.past[history.past.length - 1];
+  if (coalesceKey && last && last.coalesceKey === coalesceKey && history.future.length === 0 && now - last.at < COALESCE_WINDOW_MS) {
+    return { past: [...history.past.slice(0, -1), { ...last, at: now }], future: [] };
+  }
+  return {
+    past: [...history.past, { label, snapshot: before, coalesceKey, at: now }].slice(-MAX_UNDO_STEPS),
+    future: []
+  };
+};
+
+export const undoCommand = (history: CommandHistory, current: DataSnapshot): { history: CommandHistory; entry: CommandEntry } | null => {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+  return {
+    history: {
+      past: history.past.slice(0, -1),
+      future: [...history.future, { ...entry, snapshot: current }]
+    },
+    entry
+  };
+};
+
+export const redoCommand = (history: CommandHistory, current: DataSnapshot): { history: CommandHistory; entry: CommandEntry } | null => {
+  const entry = history.future[history.future.length - 1];
+  if (!entry) return null;
+  return {
+    history: {
+      past: [...history.past, { ...entry, snapshot: current }],
+      future: history.future.slice(0, -1)
+    },
+    entry
+  };
+};
+
+// Another tab changed some slices: every stored snapshot takes them over, so undo and redo
+// here only revert this tab's own edits instead of bringing back data the other tab replaced.
+export const rebaseCommandHistory = (history: CommandHistory, changes: Partial<DataSnapshot>): CommandHistory => {
+  const rebase = (entry: CommandEntry): CommandEntry => ({ ...entry, snapshot: { ...entry.snapshot, ...changes } });
+  return { past: history.past.map(rebase), future: history.future.map(rebase) };
+};
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { Project } from './types';
+import { getBusyMinutesByDay, getDateKey, getEstimatedFinishDate, zonedTimeToUtc } from './utils';
+
+const clock = { timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone, dayStartHour: 0 };
+
+const project = (category: Project['category'], sessions: number, createdAt: string): Project => ({
+  id: 'p1',
+  name: 'Project',
+  category,
+  createdAt,
+  subtasks: [{ id: 's1', name: 'Task', targetSessions: sessions, completedSessions: 0, importance: 'important', urgency: 'not-emergent' }]
+});
+
+// The estimate before busy blocks: creation day plus ceil(sessions / target) days, or that
+// many weekdays for work projects, ending at local midnight
+const baselineFinish = (p: Project, dailyTarget: number): Date => {
+  const daysRequired = Math.ceil(p.subtasks.reduce((sum, t) => sum + t.targetSessions, 0) / dailyTarget);
+  const current = new Date(p.createdAt);
+  for (let added = 0; added < daysRequired;) {
+    current.setDate(current.getDate() + 1);
+    if (p.category !== 'work' || (current.getDay() !== 0 && current.getDay() !== 6)) added++;
+  }
+  current.setHours(23, 59, 59, 999);
+  return current;
+};
+
+describe('getEstimatedFinishDate', () => {
+  it('matches the baseline estimate without busy blocks', () => {
+    [
+      project('personal', 12, '2026-10-14T10:00:00'),
+      project('personal', 13, '2026-10-14T10:00:00'),
+      project('work', 20, '2026-10-16T10:00:00'), // Created on a Friday
+      project('work', 6, '2026-10-17T10:00:00') // Created on a Saturday
+    ].forEach(p => expect(getEstimatedFinishDate(p, 6, clock)?.getTime()).toBe(baselineFinish(p, 6).getTime()));
+  });
+
+  it('pushes the estimate back by the capacity busy time takes', () => {
+    const p = project('personal', 12, '2026-10-14T10:00:00');
+    const finish = getEstimatedFinishDate(p, 6, clock, { '2026-10-15': 480, '2026-10-16': 240 })!;
+    // 15th full, 16th half (3), 17th 6, 18th the last 3
+    expect(finish.getTime()).toBe(new Date('2026-10-18T23:59:59.999').getTime());
+  });
+});
+
+describe('day boundaries', () => {
+  const berlin = { timeZone: 'Europe/Berlin', dayStartHour: 4 };
+  const at = (iso: string) => new Date(iso);
+
+  it('counts times before the day start toward the previous day', () => {
+    expect(getDateKey(at('2026-10-19T01:30:00.000Z'), berlin)).toBe('2026-10-18'); // 03:30 in Berlin
+    expect(getDateKey(at('2026-10-19T02:00:00.000Z'), berlin)).toBe('2026-10-19'); // 04:00
+    expect(zonedTimeToUtc('2026-10-19', 4, 0, 'Europe/Berlin')).toBe(Date.parse('2026-10-19T02:00:00.000Z'));
+  });
+
+  it('reads days in the configured zone rather than the host one', () => {
+    const instant = at('2026-10-19T12:00:00.000Z');
+    expect(getDateKey(instant, { timeZone: 'Pacific/Auckland', dayStartHour: 0 })).toBe('2026-10-20');
+    expect(getDateKey(instant, { timeZone: 'Pacific/Honolulu', dayStartHour: 0 })).toBe('2026-10-19');
+    expect(zonedTimeToUtc('2026-10-20', 1, 0, 'Pacific/Auckland')).toBe(instant.getTime());
+  });
+
+  it('keeps the day start on the wall clock across a daylight saving switch', () => {
+    // Berlin falls back from 03:00 to 02:00 on October 25th, so 04:00 is 03:00 UTC that day
+    expect(zonedTimeToUtc('2026-10-25', 4, 0, 'Europe/Berlin')).toBe(Date.parse('2026-10-25T03:00:00.000Z'));
+    expect(getDateKey(at('2026-10-25T02:30:00.000Z'), berlin)).toBe('2026-10-24'); // 03:30 in Berlin
+    expect(getDateKey(at('2026-10-25T03:00:00.000Z'), berlin)).toBe('2026-10-25');
+    // New York springs forward from 02:00 to 03:00 on March 8th
+    expect(zonedTimeToUtc('2026-03-08', 9, 30, 'America/New_York')).toBe(Date.parse('2026-03-08T13:30:00.000Z'));
+  });
+
+  it('splits busy blocks at the day start in the configured zone', () => {
+    const blocks = [
+      // 22:00 to 06:00 in Berlin across the fall-back night, which lasts nine hours
+      { id: 'a', source: 'x.ics', title: 'Night shift', start: '2026-10-24T20:00:00.000Z', end: '2026-10-25T05:00:00.000Z' },
+      // Overlaps the first block, so only its last hour counts
+      { id: 'b', source: 'x.ics', title: 'Handover', start: '2026-10-25T04:00:00.000Z', end: '2026-10-25T06:00:00.000Z' },
+      { id: 'c', source: 'x.ics', title: 'Trip', start: '2026-10-27', end: '2026-10-29', allDay: true }
+    ];
+    expect(getBusyMinutesByDay(blocks, berlin)).toEqual({
+      '2026-10-24': 7 * 60, // 22:00 to 04:00 the next morning, with 02:00 to 03:00 twice
+      '2026-10-25': 3 * 60, // 04:00 to 07:00
+      '2026-10-27': 480,
+      '2026-10-28': 480
+    });
+  });
+});
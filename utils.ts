@@ -1,5 +1,6 @@
 
-import { Project, AppSessionLog } from './types';
+import { Project, AppSessionLog, AppSettings, BusyBlock, TimerMode } from './types';
+import { getCycle, getFocusMinutes } from './timerEngine';
 
 export const formatTime = (seconds: number): string => {
   const h = Math.floor(seconds / 3600);
@@ -12,36 +13,168 @@ export const formatTime = (seconds: number): string => {
   return `${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
 };
 
-export const getIstanbulDate = (): string => {
-  return new Date().toLocaleDateString('en-US', {
-    timeZone: 'Europe/Istanbul',
-    weekday: 'long',
-    year: 'numeric',
-    month: 'long',
-    day: 'numeric',
-  });
+// Session log durations are always stored as hh:mm:ss, even below an hour
+export const formatDuration = (seconds: number): string => {
+  const total = Math.max(0, Math.round(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  return `${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
+};
+
+// Accepts hh:mm:ss and the legacy mm:ss produced by formatTime; returns null for anything else
+export const parseDurationToSeconds = (duration: string): number | null => {
+  if (!/^\d+(:\d{1,2}){1,2}$/.test(duration.trim())) return null;
+  const parts = duration.trim().split(':').map(Number);
+  if (parts.slice(1).some(p => p >= 60)) return null;
+  if (parts.length === 3) return parts[0] * 3600 + parts[1] * 60 + parts[2];
+  return parts[0] * 60 + parts[1];
+};
+
+export type DayClock = Pick<AppSettings, 'timeZone' | 'dayStartHour'>;
+
+export const getBrowserTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch (err) {
+    return false;
+  }
+};
+
+export const getSupportedTimeZones = (): string[] => {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: 'timeZone') => string[] };
+  return intl.supportedValuesOf ? intl.supportedValuesOf('timeZone') : [getBrowserTimeZone(), 'UTC'];
+};
+
+// Formatters are expensive to build and day keys are computed for every log, so cache per zone
+const dayPartFormatters = new Map<string, Intl.DateTimeFormat>();
+
+const getDayPartFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = dayPartFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', { timeZone, hourCycle: 'h23', year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric' });
+    dayPartFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export const toDateKey = (year: number, monthIndex: number, day: number): string =>
+  `${year}-${(monthIndex + 1).toString().padStart(2, '0')}-${day.toString().padStart(2, '0')}`;
+
+// Canonical day key (YYYY-MM-DD) shared by history, notes, agendas and the calendar.
+// The instant is read in the configured time zone, and anything before dayStartHour on
+// the wall clock still counts toward the previous day, also on daylight saving days.
+export const getDateKey = (date: Date, clock: DayClock): string => {
+  const parts = getDayPartFormatter(clock.timeZone).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+  const key = toDateKey(part('year'), part('month') - 1, part('day'));
+  return part('hour') % 24 < clock.dayStartHour ? addDaysToKey(key, -1) : key;
+};
+
+export const getTodayKey = (clock: DayClock): string => getDateKey(new Date(), clock);
+
+const hourFormatters = new Map<string, Intl.DateTimeFormat>();
+
+// Hour of day (0-23) on the wall clock of the given zone
+export const getHourInZone = (date: Date, timeZone: string): number => {
+  let formatter = hourFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', { timeZone, hour: 'numeric', hourCycle: 'h23' });
+    hourFormatters.set(timeZone, formatter);
+  }
+  return Number(formatter.formatToParts(date).find(p => p.type === 'hour')?.value) % 24;
+};
+
+const offsetFormatters = new Map<string, Intl.DateTimeFormat>();
+
+// Offset of a zone from UTC at a given instant, in ms
+const getZoneOffsetMs = (ms: number, timeZone: string): number => {
+  let formatter = offsetFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone, hourCycle: 'h23', year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric', second: 'numeric'
+    });
+    offsetFormatters.set(timeZone, formatter);
+  }
+  const parts = formatter.formatToParts(new Date(ms));
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+  return Date.UTC(part('year'), part('month') - 1, part('day'), part('hour') % 24, part('minute'), part('second')) - Math.floor(ms / 1000) * 1000;
+};
+
+// The instant a wall-clock time in the given zone refers to
+export const zonedTimeToUtc = (dateKey: string, hour: number, minute: number, timeZone: string, second: number = 0): number => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+  const guess = wallClock - getZoneOffsetMs(wallClock, timeZone);
+  // A second pass settles times near a daylight saving switch
+  return wallClock - getZoneOffsetMs(guess, timeZone);
+};
+
+// Local-midnight Date for a day key, for calendar arithmetic and display only
+export const parseDateKey = (key: string): Date => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
 };
 
-// Standardized date string for Logs (matches 'en-GB' format used in App)
-export const getLogDateString = (date: Date = new Date()): string => {
-  return date.toLocaleDateString('en-GB', { day: '2-digit', month: 'long', year: 'numeric' });
+export const addDaysToKey = (key: string, days: number): string => {
+  const date = parseDateKey(key);
+  date.setDate(date.getDate() + days);
+  return toDateKey(date.getFullYear(), date.getMonth(), date.getDate());
 };
 
+// Monday of the week a day belongs to
+export const getWeekStartKey = (key: string): string => addDaysToKey(key, -((parseDateKey(key).getDay() + 6) % 7));
+
+export const formatDateKey = (key: string, locale: string = 'en-GB', options: Intl.DateTimeFormatOptions = { day: '2-digit', month: 'long', year: 'numeric' }): string =>
+  parseDateKey(key).toLocaleDateString(locale, options);
+
+export const getTodayLabel = (clock: DayClock): string =>
+  formatDateKey(getTodayKey(clock), 'en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' });
+
 export const generateId = (): string => {
   return Math.random().toString(36).substring(2, 9);
 };
 
-export const calculateProjectStats = (subtasks: any[]) => {
-  let totalSessions = 0;
-  let completedSessions = 0;
+// Saves generated text (backup, CSV, calendar...) through a temporary download link
+export const downloadFile = (content: string, fileName: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// Length of one session of this project, following the cycle the timer would run for it
+export const getProjectFocusMinutes = (project: Project, settings: AppSettings): number =>
+  getFocusMinutes(getCycle(settings, project.pomodoroMinutes)) || settings.durations.pomodoro;
 
-  subtasks.forEach((t: any) => {
-    totalSessions += t.targetSessions;
-    completedSessions += t.completedSessions;
+// Logged focus seconds keyed by subtask id; `include` narrows the logs, e.g. to one day
+export const getFocusSecondsBySubtask = (history: AppSessionLog[], include: (log: AppSessionLog) => boolean = () => true): Record<string, number> => {
+  const seconds: Record<string, number> = {};
+  history.forEach(log => {
+    if (!log.subtaskId || log.mode !== TimerMode.POMODORO || !include(log)) return;
+    seconds[log.subtaskId] = (seconds[log.subtaskId] || 0) + getLogDurationSeconds(log);
   });
+  return seconds;
+};
+
+// Time spent is the focus time actually logged; time remaining is the open sessions at the
+// project's session length. Daily projects only look at today.
+export const calculateProjectStats = (project: Project, history: AppSessionLog[], settings: AppSettings) => {
+  const todayKey = project.isDaily ? getTodayKey(settings) : null;
+  const logs = history.filter(log => log.projectId === project.id && log.mode === TimerMode.POMODORO && (!todayKey || getLogDay(log, settings) === todayKey));
 
-  const timeSpentSeconds = completedSessions * 25 * 60;
-  const timeRemainingSeconds = Math.max(0, totalSessions - completedSessions) * 25 * 60;
+  const totalSessions = project.subtasks.reduce((sum, t) => sum + t.targetSessions, 0);
+  const completedSessions = project.isDaily
+    ? logs.filter(countsAsCompletedSession).length
+    : project.subtasks.reduce((sum, t) => sum + t.completedSessions, 0);
+
+  const timeSpentSeconds = Math.round(logs.reduce((sum, log) => sum + getLogDurationSeconds(log), 0));
+  const timeRemainingSeconds = Math.round(Math.max(0, totalSessions - completedSessions) * getProjectFocusMinutes(project, settings) * 60);
 
   return {
     totalSessions,
@@ -51,6 +184,17 @@ export const calculateProjectStats = (subtasks: any[]) => {
   };
 };
 
+// Project colors are picked by position in the project list, so the calendar and the charts agree
+export const PROJECT_COLORS = [
+  '#f87171', '#fb923c', '#fbbf24', '#facc15', '#a3e635', 
+  '#4ade80', '#34d399', '#2dd4bf', '#22d3ee', '#38bdf8', 
+  '#60a5fa', '#818cf8', '#a78bfa', '#c084fc', '#e879f9', 
+  '#f472b6', '#fb7185'
+];
+
+export const getProjectColorMap = (projects: Project[]): Record<string, string> =>
+  Object.fromEntries(projects.map((p, i) => [p.id, PROJECT_COLORS[i % PROJECT_COLORS.length]]));
+
 export const hexToRgba = (hex: string, alpha: number): string => {
   const r = parseInt(hex.slice(1, 3), 16);
   const g = parseInt(hex.slice(3, 5), 16);
@@ -61,36 +205,182 @@ export const hexToRgba = (hex: string, alpha: number): string => {
   return `rgba(${r}, ${g}, ${b}, ${alpha})`;
 };
 
-// Helper to count sessions from history for a specific project on a specific date string
-export const getDailyProjectCompletion = (projectId: string, dateStr: string, history: AppSessionLog[]) => {
-  const logs = history.filter((log) => log.projectId === projectId && log.date === dateStr);
+// A session belongs to the day it started on
+export const getLogDay = (log: AppSessionLog, clock: DayClock): string => getDateKey(new Date(log.startedAt), clock);
+
+export const getLogDurationSeconds = (log: AppSessionLog): number => {
+  const seconds = parseDurationToSeconds(log.duration);
+  if (seconds !== null) return seconds;
+  return Math.max(0, (new Date(log.endedAt).getTime() - new Date(log.startedAt).getTime()) / 1000);
+};
+
+// Minutes logged per day key, as shown on the calendar and the heatmap
+export const getFocusMinutesByDay = (history: AppSessionLog[], clock: DayClock): Record<string, number> => {
+  const minutes: Record<string, number> = {};
+  history.forEach(log => {
+    const day = getLogDay(log, clock);
+    minutes[day] = (minutes[day] || 0) + getLogDurationSeconds(log) / 60;
+  });
+  return minutes;
+};
+
+// Partial sessions below the credit threshold still show up as focus time, but not as sessions
+export const countsAsCompletedSession = (log: AppSessionLog): boolean => !log.isPartial || log.countsTowardTarget === true;
+
+// Helper to count sessions from history for a specific project on a specific day key
+export const getDailyProjectCompletion = (projectId: string, dateKey: string, history: AppSessionLog[], clock: DayClock) => {
+  const logs = history.filter((log) => log.projectId === projectId && getLogDay(log, clock) === dateKey && countsAsCompletedSession(log));
   return logs.length;
 };
 
-// Get completed sessions for a specific subtask on a specific date (defaults to Today)
-export const getSubtaskCompletionToday = (subtaskId: string, history: AppSessionLog[], dateStr: string = getLogDateString()): number => {
-  return history.filter(log => log.subtaskId === subtaskId && log.date === dateStr).length;
+// Get completed sessions for a specific subtask on a specific day key (defaults to Today)
+export const getSubtaskCompletionToday = (subtaskId: string, history: AppSessionLog[], clock: DayClock, dateKey: string = getTodayKey(clock)): number => {
+  return history.filter(log => log.subtaskId === subtaskId && getLogDay(log, clock) === dateKey && countsAsCompletedSession(log)).length;
 };
 
 // Check if a Daily project is "Done" for the current day
-export const isDailyProjectDoneToday = (project: Project, history: AppSessionLog[]): boolean => {
+export const isDailyProjectDoneToday = (project: Project, history: AppSessionLog[], clock: DayClock): boolean => {
   if (!project.isDaily) return false;
-  const todayStr = getLogDateString();
+  const todayKey = getTodayKey(clock);
   
   // A daily project is done if all its subtasks have met their daily target
   return project.subtasks.every(task => {
-    const doneToday = getSubtaskCompletionToday(task.id, history, todayStr);
+    const doneToday = getSubtaskCompletionToday(task.id, history, clock, todayKey);
     return doneToday >= task.targetSessions;
   });
 };
 
-export const isProjectFinished = (project: Project): boolean => {
+// Busy time beyond this leaves no room for focus sessions that day
+export const WORKDAY_MINUTES = 8 * 60;
+// Stops a schedule from running on forever behind a long stretch of busy days
+const MAX_SCHEDULE_DAYS = 5 * 365;
+
+// Minutes taken by busy blocks on each day (by the app's day boundary), capped at a
+// workday. Overlapping events count once; all-day events take the whole workday.
+export const getBusyMinutesByDay = (blocks: BusyBlock[], clock: DayClock): Record<string, number> => {
+  const minutes: Record<string, number> = {};
+  const add = (dateKey: string, amount: number) => { minutes[dateKey] = Math.min(WORKDAY_MINUTES, (minutes[dateKey] || 0) + amount); };
+
+  const intervals: [number, number][] = [];
+  blocks.forEach(block => {
+    if (block.allDay) {
+      for (let key = block.start; key < block.end; key = addDaysToKey(key, 1)) add(key, WORKDAY_MINUTES);
+      return;
+    }
+    const start = Date.parse(block.start);
+    const end = Date.parse(block.end);
+    if (end > start) intervals.push([start, end]);
+  });
+  intervals.sort((a, b) => a[0] - b[0]);
+
+  const merged: [number, number][] = [];
+  intervals.forEach(([start, end]) => {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) last[1] = Math.max(last[1], end);
+    else merged.push([start, end]);
+  });
+
+  merged.forEach(([start, end]) => {
+    let cursor = start;
+    while (cursor < end) {
+      const dateKey = getDateKey(new Date(cursor), clock);
+      const nextDay = zonedTimeToUtc(addDaysToKey(dateKey, 1), clock.dayStartHour, 0, clock.timeZone);
+      const segmentEnd = nextDay > cursor ? Math.min(end, nextDay) : end;
+      add(dateKey, (segmentEnd - cursor) / 60000);
+      cursor = segmentEnd;
+    }
+  });
+  return minutes;
+};
+
+// Busy blocks overlapping a day (by the app's day boundary), in start order
+export const getBusyBlocksOnDay = (blocks: BusyBlock[], dateKey: string, clock: DayClock): BusyBlock[] => {
+  const dayStart = zonedTimeToUtc(dateKey, clock.dayStartHour, 0, clock.timeZone);
+  const dayEnd = zonedTimeToUtc(addDaysToKey(dateKey, 1), clock.dayStartHour, 0, clock.timeZone);
+  return blocks
+    .filter(block => block.allDay
+      ? block.start <= dateKey && dateKey < block.end
+      : Date.parse(block.start) < dayEnd && Date.parse(block.end) > dayStart)
+    .sort((a, b) => (a.allDay === b.allDay ? a.start.localeCompare(b.start) : a.allDay ? -1 : 1));
+};
+
+// Sessions that fit on a day once its busy time is taken out of the workday
+export const getDailyCapacity = (dailyTarget: number, busyMinutes: number = 0): number =>
+  Math.round(dailyTarget * Math.max(0, WORKDAY_MINUTES - busyMinutes) / WORKDAY_MINUTES);
+
+// Days from startKey that `sessions` take at each day's capacity; the last day counts only
+// for the share of it they fill
+export const getScheduleDays = (startKey: string, sessions: number, dailyTarget: number, busyMinutesByDay: Record<string, number> = {}): number => {
+  let days = 0;
+  let remaining = sessions;
+  for (let key = startKey; remaining > 0 && days < MAX_SCHEDULE_DAYS; key = addDaysToKey(key, 1)) {
+    const capacity = getDailyCapacity(dailyTarget, busyMinutesByDay[key]);
+    if (remaining <= capacity) return days + remaining / capacity;
+    remaining -= capacity;
+    days++;
+  }
+  return days;
+};
+
+export interface ProjectDay {
+  projectId: string;
+  isDaily: boolean;
+  status?: 'success' | 'failed' | 'pending'; // Daily projects only: whether that day's target was met
+}
+
+// The days each project occupies on the calendar, keyed by day key. Daily projects cover
+// every day until their recurrence end; others are spread over the days their remaining
+// sessions need at the daily target (weekdays only for work projects).
+export const getProjectsByDay = (
+  projects: Project[],
+  history: AppSessionLog[],
+  settings: AppSettings,
+  todayKey: string = getTodayKey(settings),
+  busyMinutesByDay: Record<string, number> = {}
+): Record<string, ProjectDay[]> => {
+  const spans: Record<string, ProjectDay[]> = {};
+  const dailyTarget = settings.dailyPomodoroTarget || 6;
+  const add = (dateKey: string, day: ProjectDay) => { (spans[dateKey] = spans[dateKey] || []).push(day); };
+
+  projects.forEach(p => {
+    const startKey = getDateKey(new Date(p.createdAt), settings);
+
+    if (p.isDaily && p.recurrenceEndDate) {
+      const endKey = p.recurrenceEndDate.slice(0, 10);
+      const target = p.subtasks.reduce((sum, t) => sum + t.targetSessions, 0);
+      for (let loopKey = startKey; loopKey <= endKey; loopKey = addDaysToKey(loopKey, 1)) {
+        // Past days and today get a status; future days are still pending
+        let status: ProjectDay['status'] = 'pending';
+        if (loopKey <= todayKey) {
+          const done = getDailyProjectCompletion(p.id, loopKey, history, settings);
+          if (done >= target) status = 'success';
+          else if (loopKey < todayKey) status = 'failed';
+        }
+        add(loopKey, { projectId: p.id, isDaily: true, status });
+      }
+      return;
+    }
+
+    // Work projects only take weekdays (one created on a weekend starts on Monday), and
+    // days fully taken by busy blocks are skipped
+    let remaining = Math.max(1, p.subtasks.reduce((sum, s) => sum + s.targetSessions, 0));
+    for (let currentKey = startKey, i = 0; remaining > 0 && i < MAX_SCHEDULE_DAYS; currentKey = addDaysToKey(currentKey, 1), i++) {
+      const day = parseDateKey(currentKey).getDay();
+      if (p.category === 'work' && (day === 0 || day === 6)) continue;
+      const capacity = getDailyCapacity(dailyTarget, busyMinutesByDay[currentKey]);
+      if (capacity === 0) continue;
+      add(currentKey, { projectId: p.id, isDaily: false });
+      remaining -= capacity;
+    }
+  });
+  return spans;
+};
+
+export const isProjectFinished = (project: Project, clock: DayClock): boolean => {
   if (project.isDaily) {
     if (!project.recurrenceEndDate) return false; // Indefinite daily projects are never "finished"
-    const end = new Date(project.recurrenceEndDate);
-    end.setHours(23, 59, 59, 999); // End of that day
-    const today = new Date();
-    return end < today;
+    // recurrenceEndDate comes from a date input (YYYY-MM-DD), so it compares directly with day keys
+    return project.recurrenceEndDate.slice(0, 10) < getTodayKey(clock);
   } else {
     // Standard project: finished if has subtasks and all are completed
     if (project.subtasks.length === 0) return false;
@@ -98,7 +388,7 @@ export const isProjectFinished = (project: Project): boolean => {
   }
 };
 
-export const getEstimatedFinishDate = (project: Project, dailyTarget: number): Date | null => {
+export const getEstimatedFinishDate = (project: Project, dailyTarget: number, clock: DayClock, busyMinutesByDay: Record<string, number> = {}): Date | null => {
   if (project.isDaily) {
     return project.recurrenceEndDate ? new Date(project.recurrenceEndDate) : null;
   }
@@ -106,30 +396,21 @@ export const getEstimatedFinishDate = (project: Project, dailyTarget: number): D
   const totalSessions = project.subtasks.reduce((sum, t) => sum + t.targetSessions, 0);
   if (totalSessions === 0) return null;
   
-  // Basic estimation: Total Sessions / Daily Target (defaulting to 1 to avoid infinity)
-  const daysRequired = Math.ceil(totalSessions / (dailyTarget || 1));
+  // Walks day keys like getProjectsByDay, from the day after creation: each day takes as
+  // many sessions as its capacity allows (the daily target, less busy time; defaulting to
+  // 1 to avoid infinity)
   const category = project.category || 'personal';
-
-  const startDate = new Date(project.createdAt);
-  
-  if (category === 'work') {
-    let current = new Date(startDate);
-    let added = 0;
-    while (added < daysRequired) {
-      current.setDate(current.getDate() + 1);
-      const day = current.getDay();
-      // 0 is Sunday, 6 is Saturday. Skip them.
-      if (day !== 0 && day !== 6) {
-        added++;
-      }
-    }
-    current.setHours(23, 59, 59, 999);
-    return current;
-  } else {
-    // Personal or default: straight day addition
-    const finishDate = new Date(startDate);
-    finishDate.setDate(startDate.getDate() + daysRequired);
-    finishDate.setHours(23, 59, 59, 999);
-    return finishDate;
+  let remaining = totalSessions;
+  let lastKey = getDateKey(new Date(project.createdAt), clock);
+  for (let key = addDaysToKey(lastKey, 1), i = 0; remaining > 0 && i < MAX_SCHEDULE_DAYS; key = addDaysToKey(key, 1), i++) {
+    const day = parseDateKey(key).getDay();
+    // 0 is Sunday, 6 is Saturday. Work projects skip them.
+    if (category === 'work' && (day === 0 || day === 6)) continue;
+    const capacity = getDailyCapacity(dailyTarget || 1, busyMinutesByDay[key]);
+    if (capacity === 0) continue;
+    remaining -= capacity;
+    lastKey = key;
   }
+  // The last moment of that day by the app's day boundary
+  return new Date(zonedTimeToUtc(addDaysToKey(lastKey, 1), clock.dayStartHour, 0, clock.timeZone) - 1);
 };
\ No newline at end of file
@@ -1,6 +1,43 @@
-import { defineConfig } from 'vite';
+import { defineConfig, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+const PRECACHE_MANIFEST = 'precache-manifest.js';
+
+// Files from public/ that the app shell needs besides the bundle itself
+const PUBLIC_PRECACHE = ['/', '/manifest.webmanifest', '/icon.svg'];
+
+const hashString = (value: string): string => {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) hash = ((hash << 5) + hash + value.charCodeAt(i)) | 0;
+  return (hash >>> 0).toString(36);
+};
+
+// Writes the list of built files for public/sw.js to precache. Bundle file names carry
+// content hashes, so the version (and with it the service worker) changes on every release.
+const precacheManifest = (): Plugin => ({
+  name: 'studybook-precache-manifest',
+  enforce: 'post',
+  configureServer(server) {
+    server.middlewares.use(`/${PRECACHE_MANIFEST}`, (_req, res) => {
+      res.setHeader('Content-Type', 'text/javascript');
+      res.end('self.__PRECACHE__ = null;\n');
+    });
+  },
+  generateBundle(_options, bundle) {
+    const files = Object.values(bundle).filter(file => file.fileName !== PRECACHE_MANIFEST);
+    const version = hashString(files
+      .map(file => file.type === 'asset' && file.fileName.endsWith('.html') ? `${file.fileName}:${String(file.source)}` : file.fileName)
+      .sort()
+      .join('|'));
+    const urls = [...PUBLIC_PRECACHE, ...files.map(file => `/${file.fileName}`)];
+    this.emitFile({
+      type: 'asset',
+      fileName: PRECACHE_MANIFEST,
+      source: `self.__PRECACHE__ = ${JSON.stringify({ version, urls })};\n`
+    });
+  }
+});
+
 export default defineConfig({
-  plugins: [react()],
-});
\ No newline at end of file
+  plugins: [react(), precacheManifest()],
+});
@@ -0,0 +1,154 @@
+import { AppSessionLog, AppSettings, Project, TimerMode } from './types';
+import { addDaysToKey, countsAsCompletedSession, formatDateKey, getLogDay, getLogDurationSeconds, getProjectsByDay, getTodayKey, isProjectFinished } from './utils';
+
+// Weekly review as Markdown, Monday to Sunday. Subtasks and projects carry no completion
+// date, so they count as completed in the week that holds their last focus session.
+
+export interface WeeklyReportData {
+  projects: Project[];
+  history: AppSessionLog[];
+  dayNotes: Record<string, string>;
+  settings: AppSettings;
+}
+
+const DAILY_STATUS_MARKS = { success: '✅', failed: '❌', pending: '⏳' } as const;
+
+// Names go into headings, lists and table cells; keep them from being read as Markdown
+const escapeMarkdown = (value: string): string => value.replace(/([\\`*_{}[\]<>|#~])/g, '\\$1').replace(/\r?\n/g, ' ');
+
+const formatMinutes = (minutes: number): string => {
+  const rounded = Math.round(minutes);
+  if (rounded < 60) return `${rounded}m`;
+  return rounded % 60 === 0 ? `${Math.floor(rounded / 60)}h` : `${Math.floor(rounded / 60)}h ${rounded % 60}m`;
+};
+
+const plural = (count: number, word: string): string => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+interface FocusTotals {
+  minutes: number;
+  sessions: number;
+}
+
+const addFocus = (totals: FocusTotals, log: AppSessionLog) => {
+  totals.minutes += getLogDurationSeconds(log) / 60;
+  if (countsAsCompletedSession(log)) totals.sessions++;
+};
+
+export const buildWeeklyReport = (data: WeeklyReportData, weekStartKey: string): string => {
+  const { projects, history, dayNotes, settings } = data;
+  const days = Array.from({ length: 7 }, (_, i) => addDaysToKey(weekStartKey, i));
+  const weekEndKey = days[6];
+  const inWeek = (dateKey: string) => dateKey >= weekStartKey && dateKey <= weekEndKey;
+  const focusLogs = history.filter(log => log.mode === TimerMode.POMODORO && inWeek(getLogDay(log, settings)));
+  const lines: string[] = [];
+
+  lines.push(`# Weekly Review: ${formatDateKey(weekStartKey, 'en-GB', { day: 'numeric', month: 'short' })} – ${formatDateKey(weekEndKey, 'en-GB', { day: 'numeric', month: 'short', year: 'numeric' })}`, '');
+
+  // ----- Focus per day -----
+  const byDay = new Map(days.map(day => [day, { minutes: 0, sessions: 0 }]));
+  const total: FocusTotals = { minutes: 0, sessions: 0 };
+  focusLogs.forEach(log => {
+    addFocus(byDay.get(getLogDay(log, settings))!, log);
+    addFocus(total, log);
+  });
+  const bestDay = days.reduce((best, day) => (byDay.get(day)!.minutes > byDay.get(best)!.minutes ? day : best), days[0]);
+  lines.push(
+    total.minutes > 0
+      ? `**${formatMinutes(total.minutes)}** of focus over ${plural(total.sessions, 'session')}. Best day: ${formatDateKey(bestDay, 'en-GB', { weekday: 'long' })} (${formatMinutes(byDay.get(bestDay)!.minutes)}).`
+      : '_No focus time logged this week._',
+    '',
+    '## Focus per day',
+    '',
+    '| Day | Focus | Sessions |',
+    '| --- | ---: | ---: |',
+    ...days.map(day => {
+      const totals = byDay.get(day)!;
+      return `| ${formatDateKey(day, 'en-GB', { weekday: 'short', day: 'numeric', month: 'short' })} | ${formatMinutes(totals.minutes)} | ${totals.sessions} |`;
+    }),
+    `| **Total** | **${formatMinutes(total.minutes)}** | **${total.sessions}** |`,
+    ''
+  );
+
+  // ----- Sessions per project and subtask -----
+  lines.push('## Sessions by project', '');
+  const projectsById = new Map(projects.map(p => [p.id, p]));
+  const byProject = new Map<string, { totals: FocusTotals; subtasks: Map<string, FocusTotals> }>();
+  focusLogs.forEach(log => {
+    const projectKey = log.projectId || '';
+    const entry = byProject.get(projectKey) || { totals: { minutes: 0, sessions: 0 }, subtasks: new Map<string, FocusTotals>() };
+    addFocus(entry.totals, log);
+    const subtaskTotals = entry.subtasks.get(log.subtaskId || '') || { minutes: 0, sessions: 0 };
+    addFocus(subtaskTotals, log);
+    entry.subtasks.set(log.subtaskId || '', subtaskTotals);
+    byProject.set(projectKey, entry);
+  });
+  if (byProject.size === 0) lines.push('_No sessions this week._', '');
+  [...byProject.entries()]
+    .sort(([, a], [, b]) => b.totals.minutes - a.totals.minutes)
+    .forEach(([projectId, entry]) => {
+      const project = projectsById.get(projectId);
+      const name = project ? escapeMarkdown(project.name) : projectId ? '_Deleted project_' : '_No project_';
+      lines.push(`### ${name}`, '', `${plural(entry.totals.sessions, 'session')}, ${formatMinutes(entry.totals.minutes)}`, '');
+      if (entry.subtasks.size === 1 && entry.subtasks.has('')) return;
+      [...entry.subtasks.entries()]
+        .sort(([, a], [, b]) => b.minutes - a.minutes)
+        .forEach(([subtaskId, totals]) => {
+          const subtask = project?.subtasks.find(t => t.id === subtaskId);
+          const label = subtask ? escapeMarkdown(subtask.name) : subtaskId ? '_Deleted subtask_' : '_No subtask_';
+          lines.push(`- ${label}: ${plural(totals.sessions, 'session')} (${formatMinutes(totals.minutes)})`);
+        });
+      lines.push('');
+    });
+
+  // ----- Completed subtasks and finished projects -----
+  const lastSessionDay = new Map<string, string>();
+  history.forEach(log => {
+    if (log.mode !== TimerMode.POMODORO || !countsAsCompletedSession(log)) return;
+    const day = getLogDay(log, settings);
+    [log.subtaskId, log.projectId].forEach(id => {
+      if (id && (lastSessionDay.get(id) || '') < day) lastSessionDay.set(id, day);
+    });
+  });
+  const finishedInWeek = (id: string) => inWeek(lastSessionDay.get(id) || '');
+  const completed: string[] = [];
+  projects.filter(p => !p.isDaily).forEach(project => {
+    project.subtasks
+      .filter(task => task.completedSessions >= task.targetSessions && finishedInWeek(task.id))
+      .forEach(task => completed.push(`- ✅ ${escapeMarkdown(task.name)} _(${escapeMarkdown(project.name)}, ${task.completedSessions}/${task.targetSessions})_`));
+    if (isProjectFinished(project, settings) && finishedInWeek(project.id)) completed.push(`- 🏁 **${escapeMarkdown(project.name)}** finished`);
+  });
+  lines.push('## Completed', '', ...(completed.length > 0 ? completed : ['_Nothing completed this week._']), '');
+
+  // ----- Daily projects -----
+  const projectsByDay = getProjectsByDay(projects, history, settings, getTodayKey(settings));
+  const dailyRows = projects
+    .filter(p => p.isDaily)
+    .map(project => {
+      const statuses = days.map(day => projectsByDay[day]?.find(d => d.projectId === project.id)?.status);
+      return { project, statuses };
+    })
+    .filter(row => row.statuses.some(Boolean));
+  if (dailyRows.length > 0) {
+    lines.push(
+      '## Daily projects',
+      '',
+      `| Project | ${days.map(day => formatDateKey(day, 'en-GB', { weekday: 'short' })).join(' | ')} | Done |`,
+      `| --- | ${days.map(() => ':---:').join(' | ')} | ---: |`,
+      ...dailyRows.map(({ project, statuses }) => {
+        const succeeded = statuses.filter(s => s === 'success').length;
+        const settled = statuses.filter(s => s === 'success' || s === 'failed').length;
+        return `| ${escapeMarkdown(project.name)} | ${statuses.map(s => (s ? DAILY_STATUS_MARKS[s] : '·')).join(' | ')} | ${succeeded}/${settled} |`;
+      }),
+      ''
+    );
+  }
+
+  // ----- Day notes -----
+  const notedDays = days.filter(day => dayNotes[day]?.trim());
+  if (notedDays.length > 0) {
+    lines.push('## Notes', '');
+    notedDays.forEach(day => lines.push(`### ${formatDateKey(day, 'en-GB', { weekday: 'long', day: 'numeric', month: 'long' })}`, '', dayNotes[day].trim(), ''));
+  }
+
+  return lines.join('\n');
+};